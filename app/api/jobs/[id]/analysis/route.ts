@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJob, submitAnalysis } from "@/lib/jobs";
+import { AnalysisData } from "@/types";
+
+interface JobRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const LIST_FIELDS = ['keyPoints', 'triggers', 'projectIndicators', 'commonErrors', 'limitations'] as const;
+
+function validateAnalysis(analysis: unknown): string | null {
+  if (!analysis || typeof analysis !== 'object' || Array.isArray(analysis)) {
+    return "analysis must be an object";
+  }
+  const data = analysis as Record<string, unknown>;
+  if (typeof data.outline !== 'string') {
+    return "analysis.outline must be a string";
+  }
+  for (const field of LIST_FIELDS) {
+    const value = data[field];
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+      return `analysis.${field} must be an array of strings`;
+    }
+  }
+  return null;
+}
+
+// Approves the pass 1 analysis of a job in review mode (options.reviewOutline),
+// optionally edited, and resumes generation with it
+export async function POST(request: NextRequest, { params }: JobRouteContext) {
+  const { id } = await params;
+
+  let analysis: AnalysisData;
+  try {
+    ({ analysis } = await request.json());
+  } catch {
+    return NextResponse.json({ error: "Invalid request: Could not parse JSON" }, { status: 400 });
+  }
+
+  const invalidReason = validateAnalysis(analysis);
+  if (invalidReason) {
+    return NextResponse.json({ error: invalidReason }, { status: 400 });
+  }
+
+  // Drop blank entries left over from editing
+  const cleaned: AnalysisData = {
+    outline: analysis.outline.trim(),
+    keyPoints: analysis.keyPoints.map(item => item.trim()).filter(Boolean),
+    triggers: analysis.triggers.map(item => item.trim()).filter(Boolean),
+    projectIndicators: analysis.projectIndicators.map(item => item.trim()).filter(Boolean),
+    commonErrors: analysis.commonErrors.map(item => item.trim()).filter(Boolean),
+    limitations: analysis.limitations.map(item => item.trim()).filter(Boolean),
+  };
+
+  switch (submitAnalysis(id, cleaned)) {
+    case 'not-found':
+      return NextResponse.json({ error: `Job ${id} not found` }, { status: 404 });
+    case 'not-awaiting-review':
+      return NextResponse.json({ error: `Job ${id} is not waiting for outline review` }, { status: 409 });
+    case 'submitted':
+      return NextResponse.json(getJob(id));
+  }
+}
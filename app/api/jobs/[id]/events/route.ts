@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJob, subscribeToJob } from "@/lib/jobs";
+import { formatSSE, isTerminalEvent, SSE_HEADERS } from "@/lib/sse";
+
+interface JobRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Resumable progress stream for a job. Replays every event after
+// Last-Event-ID (header, or ?lastEventId= for clients that cannot set headers),
+// then streams live events and closes after the complete/error event.
+// Disconnecting only ends this stream - the job keeps running.
+export async function GET(request: NextRequest, { params }: JobRouteContext) {
+  const { id } = await params;
+
+  if (!getJob(id)) {
+    return NextResponse.json({ error: `Job ${id} not found` }, { status: 404 });
+  }
+
+  const lastEventIdRaw =
+    request.headers.get('last-event-id') ?? request.nextUrl.searchParams.get('lastEventId') ?? '0';
+  const lastEventId = Number.parseInt(lastEventIdRaw, 10);
+  const afterEventId = Number.isFinite(lastEventId) && lastEventId > 0 ? lastEventId : 0;
+
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | null = null;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let isClosed = false;
+
+      const close = () => {
+        if (isClosed) return;
+        isClosed = true;
+        unsubscribe?.();
+        try {
+          controller.close();
+        } catch {
+          // Expected: Controller already closed by a disconnect
+        }
+      };
+
+      unsubscribe = subscribeToJob(id, afterEventId, ({ id: eventId, event }) => {
+        if (isClosed) return;
+        try {
+          controller.enqueue(encoder.encode(formatSSE(event, eventId)));
+        } catch (error) {
+          console.error(`[SSE] Failed to send job event ${eventId} for ${id}:`, error);
+          close();
+          return;
+        }
+        if (isTerminalEvent(event)) {
+          close();
+        }
+      });
+
+      // Job vanished between the lookup and the subscription (expired)
+      if (!unsubscribe) {
+        close();
+        return;
+      }
+
+      // Replay is synchronous: a terminal event in it closed the stream
+      // before there was anything to unsubscribe
+      if (isClosed) {
+        unsubscribe();
+        return;
+      }
+
+      request.signal.addEventListener("abort", close, { once: true });
+    },
+    cancel() {
+      unsubscribe?.();
+    },
+  });
+
+  console.log(`[Jobs] Streaming events for ${id} after #${afterEventId}`);
+
+  return new Response(stream, { headers: SSE_HEADERS });
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cancelJob, getJob } from "@/lib/jobs";
+
+interface JobRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Job status, latest progress and (once finished) the result or error
+export async function GET(_request: NextRequest, { params }: JobRouteContext) {
+  const { id } = await params;
+  const job = getJob(id);
+
+  if (!job) {
+    return NextResponse.json({ error: `Job ${id} not found` }, { status: 404 });
+  }
+
+  return NextResponse.json(job);
+}
+
+// Cancels a running job; the pipeline stops at the next abort checkpoint
+export async function DELETE(_request: NextRequest, { params }: JobRouteContext) {
+  const { id } = await params;
+
+  if (!cancelJob(id)) {
+    return NextResponse.json({ error: `Job ${id} not found` }, { status: 404 });
+  }
+
+  return NextResponse.json(getJob(id));
+}
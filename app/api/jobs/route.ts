@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createJob } from "@/lib/jobs";
+import { validateGenerateRequest } from "@/lib/pipeline";
+import { GenerateRequest } from "@/types";
+
+// Starts a generation that outlives this request. Clients follow it through
+// GET /api/jobs/:id (polling) or GET /api/jobs/:id/events (resumable SSE).
+export async function POST(request: NextRequest) {
+  let body: GenerateRequest;
+  try {
+    const contentType = request.headers.get('content-type');
+    if (!contentType || !contentType.includes('application/json')) {
+      throw new Error('Content-Type must be application/json');
+    }
+    body = await request.json();
+  } catch (parseError) {
+    return NextResponse.json(
+      { error: `Invalid request: ${parseError instanceof Error ? parseError.message : 'Could not parse JSON'}` },
+      { status: 400 }
+    );
+  }
+
+  const invalidReason = validateGenerateRequest(body);
+  if (invalidReason) {
+    return NextResponse.json({ error: invalidReason }, { status: 400 });
+  }
+
+  const job = createJob(body);
+
+  return NextResponse.json(
+    {
+      id: job.id,
+      status: job.status,
+      statusUrl: `/api/jobs/${job.id}`,
+      eventsUrl: `/api/jobs/${job.id}/events`,
+    },
+    { status: 202 }
+  );
+}
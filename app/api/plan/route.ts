@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { planGeneration, validateGenerateRequest } from "@/lib/pipeline";
+import { BudgetExceededError } from "@/lib/budget";
+import { GenerateRequest } from "@/types";
+
+// Dry run: search, validate, crawl, rank and classify, then stop before any
+// generation pass. Takes the same body as POST /api/jobs.
+export async function POST(request: NextRequest) {
+  let body: GenerateRequest;
+  try {
+    const contentType = request.headers.get('content-type');
+    if (!contentType || !contentType.includes('application/json')) {
+      throw new Error('Content-Type must be application/json');
+    }
+    body = await request.json();
+  } catch (parseError) {
+    return NextResponse.json(
+      { error: `Invalid request: ${parseError instanceof Error ? parseError.message : 'Could not parse JSON'}` },
+      { status: 400 }
+    );
+  }
+
+  const invalidReason = validateGenerateRequest(body);
+  if (invalidReason) {
+    return NextResponse.json({ error: invalidReason }, { status: 400 });
+  }
+
+  try {
+    // Stop crawling and classification if the client goes away
+    const plan = await planGeneration(body, { signal: request.signal });
+    return NextResponse.json(plan);
+  } catch (error) {
+    if (request.signal.aborted) {
+      return new Response(null, { status: 499 });
+    }
+    console.error(`[API] Plan failed:`, error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "An unknown error occurred",
+        code: error instanceof BudgetExceededError ? error.code : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,54 +1,246 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import Image from "next/image";
-import InputSection from "@/components/input-section";
+import InputSection, { parseSeedUrls } from "@/components/input-section";
 import PreviewSection from "@/components/preview-section";
 import ProgressIndicator, { ErrorMessage, WarningMessages } from "@/components/progress-indicator";
+import CostBreakdown from "@/components/cost-breakdown";
+import AnalysisReview from "@/components/analysis-review";
+import { readEventStream } from "@/lib/sse-client";
+import { AnalysisData, GenerateRequest, GenerationEvent, GenerationMetadata, GenerationOptions, JobSnapshot } from "@/types";
 
-
-interface Metadata {
-  topic: string;
-  scrapedCount: number;
-  totalUrls: number;
-  topicType: string;
-  complexity: string;
-  usedCache: boolean;
-  paywalledCount: number;
-  warnings: string[];
-  generatedAt: string;
-}
+// localStorage key holding the running job, so a reload can reattach to it
+const ACTIVE_JOB_KEY = "hyperskill:active-job";
+const MAX_RECONNECTS = 5;
+const RECONNECT_DELAY_MS = 1000;
 
 export default function Home() {
   const [topic, setTopic] = useState("");
+  const [options, setOptions] = useState<GenerationOptions>({});
+  const [seedUrls, setSeedUrls] = useState("");
   const [loading, setLoading] = useState(false);
   const [generatedContent, setGeneratedContent] = useState("");
+  // SKILL.md text streamed while a pass is writing it; replaced by the final version
+  const [draftContent, setDraftContent] = useState("");
   const [error, setError] = useState("");
   const [progress, setProgress] = useState({ phase: "", message: "", percent: 0 });
-  const [metadata, setMetadata] = useState<Metadata | null>(null);
+  const [metadata, setMetadata] = useState<GenerationMetadata | null>(null);
+  // Review mode: pass 1 analysis waiting for approval
+  const [pendingAnalysis, setPendingAnalysis] = useState<AnalysisData | null>(null);
+  const [submittingAnalysis, setSubmittingAnalysis] = useState(false);
+  const jobIdRef = useRef<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const resetOutput = () => {
+    setError("");
+    setGeneratedContent("");
+    setDraftContent("");
+    setMetadata(null);
+    setPendingAnalysis(null);
+  };
+
+  const finishJob = () => {
+    jobIdRef.current = null;
+    abortControllerRef.current = null;
+    localStorage.removeItem(ACTIVE_JOB_KEY);
+    setPendingAnalysis(null);
+    setLoading(false);
+  };
+
+  // Apply one job event. Returns true once the job is finished (complete or error).
+  const handleEvent = (event: GenerationEvent): boolean => {
+    switch (event.type) {
+      case "error":
+        console.error(`[Client] Error event received:`, event.message);
+        setError(event.message);
+        return true;
+
+      case "complete":
+        console.log(`[Client] Complete event received:`, {
+          contentLength: event.content.length,
+          warnings: event.metadata.warnings.length,
+        });
+
+        if (!event.content) {
+          console.error(`[Client] ERROR: No content in complete event`);
+          setError("Generation completed but no content received. Check server logs.");
+          return true;
+        }
+
+        setGeneratedContent(event.content);
+        setDraftContent("");
+        setMetadata(event.metadata);
+        return true;
+
+      case "analysis-ready":
+        setPendingAnalysis(event.analysis);
+        return false;
+
+      case "partial-content":
+        setDraftContent(current => (event.reset ? event.delta : current + event.delta));
+        return false;
+
+      case "progress":
+        // Replayed analysis-ready events are superseded once generation moves on
+        if (event.phase !== "analyzing") setPendingAnalysis(null);
+        setProgress({
+          phase: event.phase,
+          message: event.message,
+          percent: event.progress,
+        });
+        return false;
+
+      default:
+        return false;
+    }
+  };
+
+  /**
+   * Follows a job's event stream until it finishes, reconnecting with
+   * Last-Event-ID whenever the connection drops so no progress is lost.
+   */
+  const followJob = async (jobId: string, signal: AbortSignal) => {
+    let lastEventId = 0;
+    let reconnects = 0;
+
+    while (!signal.aborted) {
+      try {
+        const response = await fetch(`/api/jobs/${jobId}/events`, {
+          headers: { "Last-Event-ID": String(lastEventId) },
+          signal,
+        });
+
+        if (response.status === 404) {
+          setError("Generation job no longer exists on the server");
+          finishJob();
+          return;
+        }
+        if (!response.ok || !response.body) {
+          throw new Error(`Failed to follow generation (HTTP ${response.status})`);
+        }
+
+        for await (const { id, event } of readEventStream(response.body, signal)) {
+          if (id !== undefined) lastEventId = id;
+          if (handleEvent(event)) {
+            finishJob();
+            return;
+          }
+        }
+
+        if (signal.aborted) return;
+        console.warn(`[Client] Event stream closed early at event #${lastEventId}, reconnecting...`);
+      } catch (err) {
+        if (signal.aborted) return;
+        console.warn(`[Client] Event stream error, reconnecting:`, err);
+      }
+
+      reconnects++;
+      if (reconnects > MAX_RECONNECTS) {
+        setError("Lost connection to the generation. Reload the page to resume it.");
+        setLoading(false);
+        return;
+      }
+      await new Promise(resolve => setTimeout(resolve, RECONNECT_DELAY_MS * reconnects));
+    }
+  };
+
+  const startFollowing = (jobId: string) => {
+    const abortController = new AbortController();
+    jobIdRef.current = jobId;
+    abortControllerRef.current = abortController;
+    localStorage.setItem(ACTIVE_JOB_KEY, jobId);
+    followJob(jobId, abortController.signal);
+  };
+
+  // The resume effect runs once, but must call the latest startFollowing
+  const startFollowingRef = useRef(startFollowing);
+  useEffect(() => {
+    startFollowingRef.current = startFollowing;
+  });
+
+  // Resume a job that was still running when the page was closed or reloaded
+  useEffect(() => {
+    const jobId = localStorage.getItem(ACTIVE_JOB_KEY);
+    if (!jobId) return;
+
+    console.log(`[Client] Resuming job ${jobId}`);
+    fetch(`/api/jobs/${jobId}`)
+      .then(async response => {
+        if (!response.ok) {
+          localStorage.removeItem(ACTIVE_JOB_KEY);
+          return;
+        }
+        const job: JobSnapshot = await response.json();
+        setTopic(job.request.topic || job.request.url || "");
+        setOptions(job.request.options ?? {});
+        setSeedUrls((job.request.urls ?? []).join("\n"));
+        setLoading(true);
+        setProgress({ phase: "searching", message: "Reconnecting...", percent: 0 });
+        startFollowingRef.current(jobId);
+      })
+      .catch(err => console.warn(`[Client] Could not resume job ${jobId}:`, err));
+  }, []);
+
+  const handleApproveAnalysis = async (analysis: AnalysisData) => {
+    const jobId = jobIdRef.current;
+    if (!jobId) return;
+
+    setSubmittingAnalysis(true);
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/analysis`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ analysis }),
+      });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || `Failed to submit outline (HTTP ${response.status})`);
+      }
+      setPendingAnalysis(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to submit outline");
+    } finally {
+      setSubmittingAnalysis(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    const jobId = jobIdRef.current;
+    console.log(`[Client] Cancelling generation ${jobId}`);
+    abortControllerRef.current?.abort();
+    finishJob();
+
+    if (jobId) {
+      await fetch(`/api/jobs/${jobId}`, { method: "DELETE" }).catch(err =>
+        console.warn(`[Client] Failed to cancel job ${jobId}:`, err)
+      );
+    }
+  };
 
   const handleGenerate = async () => {
-    if (!topic.trim()) {
+    const seeds = parseSeedUrls(seedUrls);
+    if (!topic.trim() && seeds.length === 0) {
       return;
     }
 
     setLoading(true);
-    setError("");
-    setGeneratedContent("");
-    setMetadata(null);
+    resetOutput();
     setProgress({ phase: "searching", message: "Initializing...", percent: 0 });
 
     try {
       const isUrl = topic.startsWith("http://") || topic.startsWith("https://");
       
-      // Prepare request body
-      const requestBody = {
-        [isUrl ? "url" : "topic"]: topic.trim(),
+      // Prepare request body: a URL typed in the main input is just another seed
+      const requestBody: GenerateRequest = {
+        topic: !isUrl && topic.trim() ? topic.trim() : undefined,
+        urls: isUrl ? [topic.trim(), ...seeds] : seeds,
+        options,
       };
       
-      console.log(`[Client] Sending request:`, requestBody);
+      console.log(`[Client] Creating job:`, requestBody);
 
-      const response = await fetch("/api/generate", {
+      const response = await fetch("/api/jobs", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -58,110 +250,12 @@ export default function Home() {
       
       console.log(`[Client] Response status: ${response.status}`);
 
+      const job = await response.json();
       if (!response.ok) {
-        throw new Error("Failed to start generation");
-      }
-
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error("No response body");
+        throw new Error(job.error || "Failed to start generation");
       }
 
-      const decoder = new TextDecoder();
-      let buffer = "";
-      let receivedComplete = false;
-
-      const processLine = (line: string) => {
-        if (!line.startsWith("data: ")) return false;
-        
-        try {
-          const jsonStr = line.slice(6);
-          console.log(`[Client] Processing SSE event (${jsonStr.length} chars)`);
-          
-          const data = JSON.parse(jsonStr);
-          
-          if (data.error) {
-            console.error(`[Client] Error event received:`, data.error);
-            setError(data.error);
-            setLoading(false);
-            return true; // Signal to stop processing
-          }
-
-          if (data.phase === "complete") {
-            console.log(`[Client] Complete event received:`, {
-              hasContent: !!data.content,
-              hasMetadata: !!data.metadata,
-              contentLength: data.content?.length || 0
-            });
-            
-            if (!data.content) {
-              console.error(`[Client] ERROR: No content in complete event`);
-              console.error(`[Client] Full data object keys:`, Object.keys(data));
-              setError("Generation completed but no content received. Check server logs.");
-              setLoading(false);
-              return true;
-            }
-            
-            receivedComplete = true;
-            setGeneratedContent(data.content);
-            setMetadata(data.metadata || null);
-            setLoading(false);
-            return true; // Signal to stop processing
-          }
-
-          setProgress({
-            phase: data.phase,
-            message: data.message,
-            percent: data.progress,
-          });
-          return false;
-        } catch (e) {
-          console.error(`[Client] Failed to parse SSE data:`, e);
-          console.error(`[Client] Line length: ${line.length}`);
-          console.error(`[Client] Line preview: ${line.slice(0, 200)}...`);
-          return false;
-        }
-      };
-
-      while (true) {
-        const { done, value } = await reader.read();
-        
-        if (done) {
-          console.log(`[Client] Stream done. Buffer remaining: ${buffer.length} chars`);
-          // Process any remaining buffer content
-          if (buffer.trim()) {
-            console.log(`[Client] Processing remaining buffer...`);
-            const remainingLines = buffer.split("\n\n").filter(l => l.trim());
-            for (const line of remainingLines) {
-              if (processLine(line)) break;
-            }
-          }
-          break;
-        }
-
-        buffer += decoder.decode(value, { stream: true });
-        
-        // Split on double newline (SSE event separator)
-        const events = buffer.split("\n\n");
-        // Keep the last potentially incomplete event in the buffer
-        buffer = events.pop() || "";
-
-        for (const event of events) {
-          const trimmedEvent = event.trim();
-          if (trimmedEvent && processLine(trimmedEvent)) {
-            // If processLine returns true, we're done
-            return;
-          }
-        }
-      }
-      
-      // Stream ended
-      if (!receivedComplete) {
-        console.error(`[Client] ERROR: Stream ended without receiving complete event`);
-        console.error(`[Client] Final buffer contents (${buffer.length} chars):`, buffer.slice(0, 500));
-        setError("Connection closed unexpectedly. The generation may have failed silently.");
-        setLoading(false);
-      }
+      startFollowing(job.id);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : "An unknown error occurred";
       console.error("[Client] Error generating skill:", err);
@@ -212,6 +306,10 @@ export default function Home() {
             onChange={setTopic}
             onGenerate={handleGenerate}
             loading={loading}
+            options={options}
+            onOptionsChange={setOptions}
+            seedUrls={seedUrls}
+            onSeedUrlsChange={setSeedUrls}
           />
         </div>
 
@@ -221,17 +319,32 @@ export default function Home() {
             phase={progress.phase}
             message={progress.message}
             progress={progress.percent}
+            onCancel={handleCancel}
           />
         )}
 
         {/* Error Message */}
         {error && <ErrorMessage error={error} />}
 
+        {/* Outline review (options.reviewOutline) */}
+        {pendingAnalysis && (
+          <AnalysisReview
+            analysis={pendingAnalysis}
+            submitting={submittingAnalysis}
+            onSubmit={handleApproveAnalysis}
+          />
+        )}
+
         {/* Metadata & Warnings */}
         {metadata && (
           <WarningMessages warnings={metadata.warnings} />
         )}
 
+        {/* Live preview while the document is being written */}
+        {!generatedContent && draftContent && (
+          <PreviewSection content={draftContent} streaming />
+        )}
+
         {/* Preview Section */}
         {generatedContent && (
           <div className="animate-in fade-in slide-in-from-bottom-8 duration-700">
@@ -246,6 +359,26 @@ export default function Home() {
                 <span className="bg-gray-200 px-2 py-1">
                   Sources: <span className="text-black font-bold">{metadata.scrapedCount}/{metadata.totalUrls}</span>
                 </span>
+                {metadata.seedCount > 0 && (
+                  <span className="bg-gray-200 px-2 py-1">
+                    Seeds: <span className="text-black font-bold">{metadata.seedCount}</span>
+                  </span>
+                )}
+                {metadata.officialDocs && (
+                  <span className="bg-gray-200 px-2 py-1" title={metadata.officialDocs.signals.join("\n")}>
+                    Official docs: <span className="text-black font-bold normal-case">{new URL(metadata.officialDocs.origin).host}</span>
+                  </span>
+                )}
+                {metadata.docVersion && (
+                  <span className="bg-gray-200 px-2 py-1" title={Object.entries(metadata.docVersion.versions).map(([version, count]) => `${version}: ${count} source(s)`).join("\n")}>
+                    Docs version: <span className="text-black font-bold normal-case">{metadata.docVersion.target}</span>
+                  </span>
+                )}
+                {metadata.packages?.map((pkg) => (
+                  <span key={`${pkg.ecosystem}:${pkg.name}`} className="bg-gray-200 px-2 py-1">
+                    {pkg.ecosystem}: <span className="text-black font-bold normal-case">{pkg.name}@{pkg.version}</span>
+                  </span>
+                ))}
                 {metadata.usedCache && (
                   <span className="bg-green-100 text-green-800 px-2 py-1">
                     Cached
@@ -253,6 +386,7 @@ export default function Home() {
                 )}
               </div>
             )}
+            {metadata?.cost && <CostBreakdown cost={metadata.cost} />}
             <PreviewSection content={generatedContent} />
           </div>
         )}
@@ -0,0 +1,123 @@
+"use client";
+
+import { useState } from "react";
+import { Check, Plus, X } from "lucide-react";
+import { AnalysisData } from "@/types";
+
+interface AnalysisReviewProps {
+  analysis: AnalysisData;
+  submitting: boolean;
+  onSubmit: (analysis: AnalysisData) => void;
+}
+
+type ListField = 'triggers' | 'projectIndicators' | 'commonErrors' | 'limitations' | 'keyPoints';
+
+const LIST_SECTIONS: { field: ListField; label: string; hint: string }[] = [
+  { field: 'triggers', label: 'Triggers', hint: 'When the agent should use this skill' },
+  { field: 'projectIndicators', label: 'Project indicators', hint: 'Files, imports and dependencies' },
+  { field: 'commonErrors', label: 'Common errors', hint: '"exact error text" → cause → solution' },
+  { field: 'limitations', label: 'Limitations', hint: 'When NOT to use it' },
+  { field: 'keyPoints', label: 'Key points', hint: 'Critical facts, APIs and gotchas' },
+];
+
+function EditableList({
+  label,
+  hint,
+  items,
+  disabled,
+  onChange,
+}: {
+  label: string;
+  hint: string;
+  items: string[];
+  disabled: boolean;
+  onChange: (items: string[]) => void;
+}) {
+  return (
+    <div>
+      <div className="flex items-baseline justify-between">
+        <span className="text-xs font-bold uppercase tracking-wider">{label}</span>
+        <span className="text-xs text-gray-500">{hint}</span>
+      </div>
+      <ul className="mt-2 space-y-2">
+        {items.map((item, index) => (
+          <li key={index} className="flex gap-2">
+            <input
+              type="text"
+              value={item}
+              disabled={disabled}
+              onChange={(e) => onChange(items.map((current, i) => (i === index ? e.target.value : current)))}
+              className="flex-1 px-3 py-2 border-2 border-black font-mono text-sm bg-white disabled:bg-gray-100"
+            />
+            <button
+              type="button"
+              disabled={disabled}
+              onClick={() => onChange(items.filter((_, i) => i !== index))}
+              className="px-2 border-2 border-black hover:bg-red-100 disabled:opacity-50"
+              aria-label={`Remove ${label} item`}
+            >
+              <X size={16} strokeWidth={2.5} />
+            </button>
+          </li>
+        ))}
+      </ul>
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={() => onChange([...items, ""])}
+        className="mt-2 flex items-center gap-1 text-xs font-bold uppercase tracking-wider text-gray-600 hover:text-black disabled:opacity-50"
+      >
+        <Plus size={14} strokeWidth={2.5} />
+        Add
+      </button>
+    </div>
+  );
+}
+
+// Shown while a review-mode job is paused after pass 1
+export default function AnalysisReview({ analysis, submitting, onSubmit }: AnalysisReviewProps) {
+  const [draft, setDraft] = useState<AnalysisData>(analysis);
+
+  return (
+    <div className="w-full max-w-5xl mx-auto mb-12 bg-white border-4 border-black p-6 shadow-brutal animate-in fade-in">
+      <h2 className="text-2xl font-black uppercase">Review outline</h2>
+      <p className="mt-1 text-sm text-gray-600">
+        Remove anything wrong and add what is missing. Generation continues with your edits.
+      </p>
+
+      <div className="mt-6 grid gap-6 md:grid-cols-2">
+        {LIST_SECTIONS.map(({ field, label, hint }) => (
+          <EditableList
+            key={field}
+            label={label}
+            hint={hint}
+            items={draft[field]}
+            disabled={submitting}
+            onChange={(items) => setDraft({ ...draft, [field]: items })}
+          />
+        ))}
+      </div>
+
+      <label className="mt-6 flex flex-col gap-2">
+        <span className="text-xs font-bold uppercase tracking-wider">Outline</span>
+        <textarea
+          value={draft.outline}
+          disabled={submitting}
+          onChange={(e) => setDraft({ ...draft, outline: e.target.value })}
+          rows={10}
+          className="px-3 py-2 border-2 border-black font-mono text-sm bg-white disabled:bg-gray-100 resize-y"
+        />
+      </label>
+
+      <button
+        type="button"
+        disabled={submitting}
+        onClick={() => onSubmit(draft)}
+        className="mt-6 h-12 px-6 bg-black text-white font-bold text-lg flex items-center gap-2 hover:bg-gray-800 disabled:bg-gray-200 disabled:text-gray-400"
+      >
+        <Check size={20} strokeWidth={3} />
+        {submitting ? "Submitting..." : "Approve & generate"}
+      </button>
+    </div>
+  );
+}
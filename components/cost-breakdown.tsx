@@ -0,0 +1,64 @@
+"use client";
+
+import { useState } from "react";
+import { Receipt } from "lucide-react";
+import { formatCost } from "@/lib/cost";
+import { CostBreakdown as CostBreakdownData } from "@/types";
+
+export default function CostBreakdown({ cost }: { cost: CostBreakdownData }) {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div className="w-full max-w-5xl mx-auto mb-6 text-xs font-mono">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-2 uppercase tracking-wider text-gray-500 hover:text-black"
+      >
+        <Receipt size={14} strokeWidth={2.5} />
+        Cost: <span className="text-black font-bold">{formatCost(cost.totalCost)}</span>
+        <span>({(cost.inputTokens + cost.outputTokens).toLocaleString()} tokens)</span>
+        {expanded ? "▲" : "▼"}
+      </button>
+
+      {expanded && (
+        <table className="mt-3 w-full bg-white border-2 border-black animate-in fade-in">
+          <thead>
+            <tr className="bg-black text-white uppercase tracking-wider text-left">
+              <th className="px-3 py-2">Item</th>
+              <th className="px-3 py-2">Model</th>
+              <th className="px-3 py-2 text-right">Input</th>
+              <th className="px-3 py-2 text-right">Output</th>
+              <th className="px-3 py-2 text-right">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {cost.tokens.map((entry, index) => (
+              <tr key={index} className="border-t border-gray-200">
+                <td className="px-3 py-2 font-bold">{entry.label}</td>
+                <td className="px-3 py-2 text-gray-600">{entry.model}</td>
+                <td className="px-3 py-2 text-right">{entry.inputTokens.toLocaleString()}</td>
+                <td className="px-3 py-2 text-right">{entry.outputTokens.toLocaleString()}</td>
+                <td className="px-3 py-2 text-right">{formatCost(entry.cost)}</td>
+              </tr>
+            ))}
+            <tr className="border-t border-gray-200">
+              <td className="px-3 py-2 font-bold">scrapes</td>
+              <td className="px-3 py-2 text-gray-600" colSpan={3}>{cost.scrapes.count} × Hyperbrowser</td>
+              <td className="px-3 py-2 text-right">{formatCost(cost.scrapes.cost)}</td>
+            </tr>
+            <tr className="border-t border-gray-200">
+              <td className="px-3 py-2 font-bold">searches</td>
+              <td className="px-3 py-2 text-gray-600" colSpan={3}>{cost.searches.count} × search API</td>
+              <td className="px-3 py-2 text-right">{formatCost(cost.searches.cost)}</td>
+            </tr>
+            <tr className="border-t-2 border-black font-bold">
+              <td className="px-3 py-2" colSpan={4}>Total</td>
+              <td className="px-3 py-2 text-right">{formatCost(cost.totalCost)}</td>
+            </tr>
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,83 @@
 "use client";
 
-import { Sparkles, ArrowRight, Terminal } from "lucide-react";
+import { useState } from "react";
+import { Sparkles, ArrowRight, Terminal, SlidersHorizontal, Link } from "lucide-react";
+import { GENERATION_MODELS, GENERATION_OPTION_LIMITS, validateGenerationOptions } from "@/lib/options";
+import { DomainRules, GenerationModel, GenerationOptions } from "@/types";
 
 interface InputSectionProps {
   value: string;
   onChange: (value: string) => void;
   onGenerate: () => void;
   loading: boolean;
+  options: GenerationOptions;
+  onOptionsChange: (options: GenerationOptions) => void;
+  seedUrls: string;
+  onSeedUrlsChange: (value: string) => void;
+}
+
+// One URL per line (commas and spaces also separate)
+export function parseSeedUrls(text: string): string[] {
+  return text.split(/[\s,]+/).map(url => url.trim()).filter(Boolean);
+}
+
+interface NumberFieldProps {
+  label: string;
+  value: number | undefined;
+  limit: { min: number; max: number };
+  placeholder: string;
+  disabled: boolean;
+  step?: number;
+  onChange: (value: number | undefined) => void;
+}
+
+// Empty input means "use the server default"
+function NumberField({ label, value, limit, placeholder, disabled, step, onChange }: NumberFieldProps) {
+  return (
+    <label className="flex flex-col gap-1">
+      <span className="text-xs font-bold uppercase tracking-wider text-gray-600">{label}</span>
+      <input
+        type="number"
+        min={limit.min}
+        max={limit.max}
+        step={step}
+        value={value ?? ""}
+        placeholder={placeholder}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.value === "" ? undefined : Number(e.target.value))}
+        className="px-3 py-2 border-2 border-black font-mono text-sm bg-white disabled:bg-gray-100"
+      />
+    </label>
+  );
+}
+
+interface DomainListFieldProps {
+  label: string;
+  value: string[] | undefined;
+  disabled: boolean;
+  onChange: (domains: string[] | undefined) => void;
+}
+
+// Comma- or space-separated domains; keeps the raw text so typing a separator isn't swallowed
+function DomainListField({ label, value, disabled, onChange }: DomainListFieldProps) {
+  const [text, setText] = useState(value?.join(", ") ?? "");
+  return (
+    <label className="flex flex-col gap-1 sm:col-span-2">
+      <span className="text-xs font-bold uppercase tracking-wider text-gray-600">{label}</span>
+      <input
+        type="text"
+        value={text}
+        placeholder="example.com, docs.example.org"
+        disabled={disabled}
+        onChange={(e) => {
+          setText(e.target.value);
+          const domains = parseSeedUrls(e.target.value);
+          onChange(domains.length > 0 ? domains : undefined);
+        }}
+        className="px-3 py-2 border-2 border-black font-mono text-sm bg-white disabled:bg-gray-100"
+      />
+    </label>
+  );
 }
 
 export default function InputSection({
@@ -14,12 +85,41 @@ export default function InputSection({
   onChange,
   onGenerate,
   loading,
+  options,
+  onOptionsChange,
+  seedUrls,
+  onSeedUrlsChange,
 }: InputSectionProps) {
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [showSeeds, setShowSeeds] = useState(seedUrls.trim().length > 0);
+  const seedCount = parseSeedUrls(seedUrls).length;
+  const hasInput = value.trim().length > 0 || seedCount > 0;
+  const optionsError = validateGenerationOptions(options);
+  const limits = GENERATION_OPTION_LIMITS;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (optionsError) return;
     onGenerate();
   };
 
+  const setOption = <K extends keyof GenerationOptions>(key: K, optionValue: GenerationOptions[K]) => {
+    onOptionsChange({ ...options, [key]: optionValue });
+  };
+
+  const setDomains = (list: "blocked" | "preferred", domains: string[] | undefined) => {
+    const next: DomainRules = { ...options.domains, [list]: domains };
+    const isEmpty = !next.blocked && !next.preferred && !next.weights;
+    setOption("domains", isEmpty ? undefined : next);
+  };
+
+  const setTargetLines = (bound: "min" | "max", lines: number | undefined) => {
+    const current = options.targetLines ?? { min: 500, max: 800 };
+    const next = { ...current, [bound]: lines };
+    // Clearing either bound goes back to the default range
+    setOption("targetLines", next.min === undefined || next.max === undefined ? undefined : { min: next.min, max: next.max });
+  };
+
   return (
     <form onSubmit={handleSubmit} className="w-full max-w-4xl mx-auto relative group">
       {/* Brutalist "Command Bar" Container */}
@@ -38,7 +138,7 @@ export default function InputSection({
           placeholder="Enter a topic (e.g., 'Supabase Auth') or URL..."
           className="w-full px-6 py-6 text-xl sm:text-2xl font-bold bg-transparent border-none outline-none placeholder:text-gray-400 text-black"
           disabled={loading}
-          required
+          required={seedCount === 0}
           autoFocus
         />
 
@@ -46,7 +146,7 @@ export default function InputSection({
         <div className="pr-3">
           <button
             type="submit"
-            disabled={loading || !value.trim()}
+            disabled={loading || !hasInput || Boolean(optionsError)}
             className="h-12 px-6 bg-black text-white font-bold text-lg flex items-center gap-2 hover:bg-gray-800 disabled:bg-gray-200 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors"
           >
             {loading ? (
@@ -67,8 +167,175 @@ export default function InputSection({
       {/* Helper Text */}
       <div className="mt-3 flex justify-between px-1 text-xs font-mono text-gray-500 uppercase tracking-wider">
         <span>Powered by Hyperbrowser</span>
+        <button
+          type="button"
+          onClick={() => setShowSeeds(!showSeeds)}
+          className="flex items-center gap-1 uppercase tracking-wider hover:text-black"
+        >
+          <Link size={12} strokeWidth={2.5} />
+          Seed URLs{seedCount > 0 ? ` (${seedCount})` : ""} {showSeeds ? "▲" : "▼"}
+        </button>
+        <button
+          type="button"
+          onClick={() => setShowAdvanced(!showAdvanced)}
+          className="flex items-center gap-1 uppercase tracking-wider hover:text-black"
+        >
+          <SlidersHorizontal size={12} strokeWidth={2.5} />
+          Advanced {showAdvanced ? "▲" : "▼"}
+        </button>
         <span>Press Enter ↵</span>
       </div>
+
+      {/* Seed URLs */}
+      {showSeeds && (
+        <div className="mt-4 bg-white border-4 border-black p-6 shadow-brutal animate-in fade-in">
+          <label className="flex flex-col gap-2">
+            <span className="text-xs font-bold uppercase tracking-wider text-gray-600">
+              Seed URLs — one per line, crawled first and ranked ahead of search results
+            </span>
+            <textarea
+              value={seedUrls}
+              onChange={(e) => onSeedUrlsChange(e.target.value)}
+              placeholder={"https://docs.example.com\nhttps://docs.example.com/api\nhttps://docs.example.com/migration"}
+              rows={4}
+              disabled={loading}
+              className="px-3 py-2 border-2 border-black font-mono text-sm bg-white disabled:bg-gray-100 resize-y"
+            />
+          </label>
+        </div>
+      )}
+
+      {/* Advanced Options */}
+      {showAdvanced && (
+        <div className="mt-4 bg-white border-4 border-black p-6 shadow-brutal animate-in fade-in">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+            <NumberField
+              label="Max sources"
+              value={options.maxSources}
+              limit={limits.maxSources}
+              placeholder="10"
+              disabled={loading}
+              onChange={(n) => setOption("maxSources", n)}
+            />
+            <NumberField
+              label="Chars / source"
+              value={options.maxContentLength}
+              limit={limits.maxContentLength}
+              placeholder="2000"
+              disabled={loading}
+              onChange={(n) => setOption("maxContentLength", n)}
+            />
+            <NumberField
+              label="Links / page"
+              value={options.maxPagesPerUrl}
+              limit={limits.maxPagesPerUrl}
+              placeholder="8"
+              disabled={loading}
+              onChange={(n) => setOption("maxPagesPerUrl", n)}
+            />
+            <NumberField
+              label="Crawl pages"
+              value={options.maxCrawlPages}
+              limit={limits.maxCrawlPages}
+              placeholder="25"
+              disabled={loading}
+              onChange={(n) => setOption("maxCrawlPages", n)}
+            />
+            <NumberField
+              label="Pages / site"
+              value={options.maxPagesPerOrigin}
+              limit={limits.maxPagesPerOrigin}
+              placeholder="12"
+              disabled={loading}
+              onChange={(n) => setOption("maxPagesPerOrigin", n)}
+            />
+            <NumberField
+              label="Crawl depth"
+              value={options.crawlDepth}
+              limit={limits.crawlDepth}
+              placeholder="2"
+              disabled={loading}
+              onChange={(n) => setOption("crawlDepth", n)}
+            />
+            <NumberField
+              label="Min lines"
+              value={options.targetLines?.min}
+              limit={limits.targetLines}
+              placeholder="500"
+              disabled={loading}
+              onChange={(n) => setTargetLines("min", n)}
+            />
+            <NumberField
+              label="Max lines"
+              value={options.targetLines?.max}
+              limit={limits.targetLines}
+              placeholder="800"
+              disabled={loading}
+              onChange={(n) => setTargetLines("max", n)}
+            />
+            <NumberField
+              label="Max cost ($)"
+              value={options.budget?.maxDollars}
+              limit={limits.budgetDollars}
+              placeholder="No cap"
+              step={0.01}
+              disabled={loading}
+              onChange={(n) => setOption("budget", n === undefined ? undefined : { ...options.budget, maxDollars: n })}
+            />
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-bold uppercase tracking-wider text-gray-600">Model</span>
+              <select
+                value={options.model ?? "opus"}
+                disabled={loading}
+                onChange={(e) => setOption("model", e.target.value as GenerationModel)}
+                className="px-3 py-2 border-2 border-black font-mono text-sm bg-white disabled:bg-gray-100"
+              >
+                {GENERATION_MODELS.map((model) => (
+                  <option key={model} value={model}>{model}</option>
+                ))}
+              </select>
+            </label>
+            <DomainListField
+              label="Blocked domains"
+              value={options.domains?.blocked}
+              disabled={loading}
+              onChange={(domains) => setDomains("blocked", domains)}
+            />
+            <DomainListField
+              label="Preferred domains"
+              value={options.domains?.preferred}
+              disabled={loading}
+              onChange={(domains) => setDomains("preferred", domains)}
+            />
+          </div>
+
+          <label className="mt-4 flex items-center gap-2 text-sm font-bold">
+            <input
+              type="checkbox"
+              checked={options.skipCache ?? false}
+              disabled={loading}
+              onChange={(e) => setOption("skipCache", e.target.checked || undefined)}
+              className="w-4 h-4 accent-black"
+            />
+            Skip cache (always crawl fresh)
+          </label>
+
+          <label className="mt-2 flex items-center gap-2 text-sm font-bold">
+            <input
+              type="checkbox"
+              checked={options.reviewOutline ?? false}
+              disabled={loading}
+              onChange={(e) => setOption("reviewOutline", e.target.checked || undefined)}
+              className="w-4 h-4 accent-black"
+            />
+            Review outline before generating
+          </label>
+
+          {optionsError && (
+            <p className="mt-4 text-sm font-mono text-red-700">{optionsError}</p>
+          )}
+        </div>
+      )}
     </form>
   );
 }
@@ -8,9 +8,10 @@ import { useState } from "react";
 
 interface PreviewSectionProps {
   content: string;
+  streaming?: boolean; // Content is still being written - actions are disabled until it is final
 }
 
-export default function PreviewSection({ content }: PreviewSectionProps) {
+export default function PreviewSection({ content, streaming = false }: PreviewSectionProps) {
   const [copied, setCopied] = useState(false);
 
   if (!content) {
@@ -51,20 +52,28 @@ export default function PreviewSection({ content }: PreviewSectionProps) {
             <div className="ml-4 flex items-center gap-2 font-mono text-sm text-gray-400">
               <FileCode size={16} />
               <span>SKILL.md</span>
+              {streaming && (
+                <span className="ml-2 flex items-center gap-2 text-green-400 text-xs uppercase tracking-wider">
+                  <span className="w-2 h-2 bg-green-400 rounded-full animate-pulse" />
+                  Writing...
+                </span>
+              )}
             </div>
           </div>
           
           <div className="flex gap-2">
             <button
               onClick={handleCopy}
-              className="px-4 py-2 bg-white text-black text-xs font-bold uppercase tracking-wider hover:bg-gray-200 transition-colors flex items-center gap-2"
+              disabled={streaming}
+              className="px-4 py-2 bg-white text-black text-xs font-bold uppercase tracking-wider hover:bg-gray-200 disabled:bg-gray-600 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
             >
               {copied ? <Check size={14} /> : <Copy size={14} />}
               {copied ? "Copied" : "Copy"}
             </button>
             <button
               onClick={handleDownload}
-              className="px-4 py-2 bg-white text-black text-xs font-bold uppercase tracking-wider hover:bg-gray-200 transition-colors flex items-center gap-2"
+              disabled={streaming}
+              className="px-4 py-2 bg-white text-black text-xs font-bold uppercase tracking-wider hover:bg-gray-200 disabled:bg-gray-600 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
             >
               <Download size={14} />
               Download
@@ -1,11 +1,12 @@
 "use client";
 
-import { Loader2, Search, Globe, Brain, FileText, CheckCircle, AlertCircle } from "lucide-react";
+import { Loader2, Search, Globe, Brain, FileText, CheckCircle, AlertCircle, X } from "lucide-react";
 
 interface ProgressIndicatorProps {
   phase: string;
   message: string;
   progress: number;
+  onCancel?: () => void;
 }
 
 const phases = {
@@ -21,6 +22,7 @@ export default function ProgressIndicator({
   phase,
   message,
   progress,
+  onCancel,
 }: ProgressIndicatorProps) {
   const phaseConfig = phases[phase as keyof typeof phases] || { icon: Loader2, label: "Processing" };
   const Icon = phaseConfig.icon;
@@ -37,6 +39,16 @@ export default function ProgressIndicator({
             <div className="font-bold text-lg">{phaseConfig.label}</div>
             <div className="text-gray-500 text-sm">{message}</div>
           </div>
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="ml-auto px-4 py-2 border-2 border-black bg-white text-black text-xs font-bold uppercase tracking-wider hover:bg-black hover:text-white transition-colors flex items-center gap-2"
+            >
+              <X size={14} strokeWidth={3} />
+              Cancel
+            </button>
+          )}
         </div>
 
         {/* Progress Bar */}
@@ -12,6 +12,8 @@ const eslintConfig = defineConfig([
     "out/**",
     "build/**",
     "next-env.d.ts",
+    // Sample data (e.g. the fixture GitHub repo), not app code
+    "fixtures/**",
   ]),
 ]);
 
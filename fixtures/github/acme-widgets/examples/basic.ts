@@ -0,0 +1,9 @@
+import { createWidget } from "acme-widgets";
+
+const counter = createWidget("counter", { initial: 5, label: "Clicks" });
+counter.mount(document.body);
+
+// Clean up when the page is hidden
+document.addEventListener("visibilitychange", () => {
+  if (document.hidden) counter.destroy();
+});
@@ -0,0 +1 @@
+export { createWidget } from "./widget";
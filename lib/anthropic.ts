@@ -1,8 +1,10 @@
 import Anthropic from "@anthropic-ai/sdk";
-import { ScrapedContent, TopicClassification } from "@/types";
+import { AnalysisData, DocVersionSelection, GenerationModel, GenerationPhase, RepoFileKind, ScrapedContent, TopicClassification } from "@/types";
 import { getTemplateForType } from "./classifier";
 import { getAnthropicClient } from "./anthropic-client";
 import { validateUrls } from "./url-validator";
+import { CostLedger } from "./cost";
+import { Budget, BudgetExceededError, estimateTokens, SpendEstimate } from "./budget";
 
 // =============================================================================
 // MODEL CONFIGURATION - Hybrid Sonnet/Opus approach
@@ -10,10 +12,21 @@ import { validateUrls } from "./url-validator";
 const MODEL_FAST = "claude-sonnet-4-20250514";     // For analysis, fixes
 const MODEL_QUALITY = "claude-opus-4-5-20251101";  // For main generation
 
+// Per-request choice of the main generation model (GenerationOptions.model)
+const GENERATION_MODELS: Record<GenerationModel, string> = {
+  opus: MODEL_QUALITY,
+  sonnet: MODEL_FAST,
+};
+
 // Token limits per pass (optimized for speed)
 const TOKENS_ANALYSIS = 3000;    // Pass 1: structured extraction
 const TOKENS_GENERATION = 12000; // Pass 2: main content (500-800 lines target)
 const TOKENS_FIX = 8000;         // Pass 3/4: add missing sections
+const TOKENS_PER_LINE = 15;      // Pass 2 budget scales with longer line targets
+const MAX_TOKENS_GENERATION = 24000;
+
+// Default SKILL.md length target (GenerationOptions.targetLines)
+const TARGET_LINES = { min: 500, max: 800 };
 
 // Quality thresholds for Pass 1 (triggers Opus fallback if not met)
 const MIN_TRIGGERS = 2;
@@ -23,6 +36,9 @@ const MIN_ERRORS = 2;
 // Content limits
 const MAX_CONTEXT_PER_SOURCE = 1500;
 
+// Minimum interval between partial-content flushes while streaming
+const PARTIAL_FLUSH_MS = 250;
+
 // =============================================================================
 // SYSTEM PROMPT
 // =============================================================================
@@ -75,7 +91,7 @@ description: >
 - BAD: Just URLs
 - GOOD: "- [Getting Started](url) - Setup and installation"
 
-**Target**: 500-800 lines (quality over quantity)
+**Target**: {{TARGET_LINES}} lines (quality over quantity)
 
 ### 4. OUTPUT FORMAT RULES
 
@@ -141,45 +157,181 @@ function analyzeContent(content: string) {
   };
 }
 
-// Build annotated sources list
+const REPO_FILE_CATEGORIES: Record<RepoFileKind, string> = {
+  readme: "Repository README",
+  docs: "Repository Docs",
+  example: "Examples",
+  changelog: "Changelog & Releases",
+  releases: "Changelog & Releases",
+};
+
+// Build annotated sources list; with an official docs site, its pages come
+// first and everything else is labelled secondary
 function buildAnnotatedSources(scrapedData: ScrapedContent[]): string {
-  return scrapedData.map(s => {
+  const hasOfficial = scrapedData.some(s => s.isOfficial);
+  const ordered = hasOfficial
+    ? [...scrapedData.filter(s => s.isOfficial), ...scrapedData.filter(s => !s.isOfficial)]
+    : scrapedData;
+  return ordered.map(s => {
     const urlPath = new URL(s.url).pathname;
     let category = "General";
-    if (/getting-started|quickstart|intro/i.test(urlPath)) category = "Setup & Installation";
+    // Hits from the "common errors" search query feed Troubleshooting
+    if (s.queries?.includes('errors')) category = "Troubleshooting";
+    else if (s.repoFile) category = REPO_FILE_CATEGORIES[s.repoFile.kind];
+    else if (s.packageInfo) category = "Package Registry";
+    else if (/getting-started|quickstart|intro/i.test(urlPath)) category = "Setup & Installation";
     else if (/api|reference/i.test(urlPath)) category = "API Reference";
     else if (/guide|tutorial/i.test(urlPath)) category = "Guides & Tutorials";
     else if (/example|sample/i.test(urlPath)) category = "Examples";
     else if (/troubleshoot|debug|error/i.test(urlPath)) category = "Troubleshooting";
-    return `- ${s.url} - ${category}`;
+    const authority = hasOfficial ? (s.isOfficial ? " (official docs)" : " (secondary)") : "";
+    return `- ${s.url} - ${category}${authority}`;
   }).join('\n');
 }
 
-// Build context from scraped data
+// Appends "(secondary)" to Sources entries that are not on the official docs
+// site, in case the model dropped the label
+function markSecondarySources(content: string, scrapedData: ScrapedContent[]): string {
+  const officialOrigins = new Set(scrapedData.filter(s => s.isOfficial).map(s => new URL(s.url).origin));
+  if (officialOrigins.size === 0) return content;
+
+  return content.replace(/(## Sources\n)([\s\S]*?)(?=\n## |$)/, (_match, heading: string, body: string) => {
+    const marked = body.split('\n').map(line => {
+      const url = line.match(/^\s*[-*].*?(https?:\/\/[^\s)]+)/)?.[1];
+      if (!url || /\(secondary\)/i.test(line)) return line;
+      try {
+        return officialOrigins.has(new URL(url).origin) ? line : `${line} (secondary)`;
+      } catch {
+        return line;
+      }
+    });
+    return heading + marked.join('\n');
+  });
+}
+
+// Build context from scraped data. When truncating, the first error-query
+// source is kept in place of the last one so Troubleshooting has material.
 function buildContext(scrapedData: ScrapedContent[], maxSources?: number): string {
-  const sources = maxSources ? scrapedData.slice(0, maxSources) : scrapedData;
+  let sources = maxSources ? scrapedData.slice(0, maxSources) : scrapedData;
+  const errorsSource = scrapedData.find(s => s.queries?.includes('errors'));
+  if (errorsSource && !sources.includes(errorsSource) && sources.length > 1) {
+    sources = [...sources.slice(0, -1), errorsSource];
+  }
   return sources
     .map((content, index) => {
       const limitedContent = content.markdown.slice(0, MAX_CONTEXT_PER_SOURCE);
-      return `Source ${index + 1}: ${content.url}\n${limitedContent}\n---\n`;
+      const tag = content.packageInfo
+        ? " [package registry]"
+        : content.versionMismatch ? ` [other version: ${content.docVersion}]`
+        : content.queries?.includes('errors') ? " [troubleshooting source]" : "";
+      return `Source ${index + 1}: ${content.url}${tag}\n${limitedContent}\n---\n`;
     })
     .join("\n");
 }
 
+// Receives streamed SKILL.md text; `reset` means the pass is rewriting the document from scratch
+export type PartialContentHandler = (pass: number, delta: string, reset: boolean) => void;
+
+// Shared state threaded through every pass of a single generation
+interface PassContext {
+  anthropic: Anthropic;
+  signal?: AbortSignal;
+  onPartialContent?: PartialContentHandler;
+  ledger?: CostLedger;
+  budget?: Budget;
+  budgetWarnings: string[];  // Downgrades and skipped passes, returned with pass 4 warnings
+  generationModel: string;
+  targetLines: { min: number; max: number };
+  docVersion: DocVersionSelection | null;
+}
+
+function formatTargetLines(ctx: PassContext): string {
+  return `${ctx.targetLines.min}-${ctx.targetLines.max}`;
+}
+
+// Pass 2 instructions for the targeted docs version; empty when sources are unversioned
+function formatTargetVersion(topic: string, docVersion: DocVersionSelection | null): string {
+  if (!docVersion) return "";
+  const basis = docVersion.basis === 'request'
+    ? "as requested"
+    : "the newest version among the sources, unless they clearly document a newer release";
+  return `
+## TARGET VERSION
+
+This skill targets ${topic} version ${docVersion.target} (${basis}).
+- State "version ${docVersion.target}" in the frontmatter description and in the first sentence of the Overview
+- Only describe APIs, options and commands as they are in version ${docVersion.target}
+- Sources marked [other version: X] are background only; never present their APIs as current
+`;
+}
+
+// The version must appear in the frontmatter and in the Overview
+function statesVersion(content: string, version: string): boolean {
+  const pattern = new RegExp(`\\b(?:v|version\\s*)?${version.replace(/\./g, "\\.")}(?:\\.x)?\\b`, "i");
+  const frontmatter = content.match(/^---\n([\s\S]*?)\n---/)?.[1] ?? "";
+  const overview = content.match(/## Overview\n([\s\S]*?)(?=\n## |$)/)?.[1] ?? "";
+  return pattern.test(frontmatter) && pattern.test(overview);
+}
+
+// Worst case for one call: the whole prompt in, max_tokens out
+function estimateCall(params: Anthropic.MessageCreateParamsNonStreaming): SpendEstimate {
+  return {
+    model: params.model,
+    inputTokens: estimateTokens(JSON.stringify([params.system, params.messages])),
+    outputTokens: params.max_tokens,
+  };
+}
+
+// Optional passes are skipped rather than failing the generation when over budget
+function canAffordPass(ctx: PassContext, pass: string, params: Anthropic.MessageCreateParamsNonStreaming): boolean {
+  if (!ctx.budget || ctx.budget.canAfford(estimateCall(params))) return true;
+  console.warn(`[Budget] Skipping ${pass} (would exceed budget)`);
+  ctx.budgetWarnings.push(`${pass} skipped to stay within budget`);
+  return false;
+}
+
+/**
+ * Runs a document-writing pass with the streaming Messages API, forwarding
+ * text to ctx.onPartialContent in coalesced chunks, and returns the full text.
+ */
+async function streamDocumentPass(
+  ctx: PassContext,
+  pass: number,
+  params: Anthropic.MessageCreateParamsNonStreaming
+): Promise<string> {
+  const stream = ctx.anthropic.messages.stream(params, { signal: ctx.signal });
+
+  if (ctx.onPartialContent) {
+    const onPartialContent = ctx.onPartialContent;
+    let pending = "";
+    let lastFlush = 0;
+    let reset = true; // First flush of every pass replaces whatever the client was showing
+
+    const flush = () => {
+      if (!pending && !reset) return;
+      onPartialContent(pass, pending, reset);
+      pending = "";
+      reset = false;
+      lastFlush = Date.now();
+    };
+
+    stream.on("text", delta => {
+      pending += delta;
+      if (Date.now() - lastFlush >= PARTIAL_FLUSH_MS) flush();
+    });
+    stream.on("end", flush);
+  }
+
+  const message = await stream.finalMessage();
+  ctx.ledger?.recordUsage(`pass${pass}`, message.model, message.usage);
+  return message.content[0]?.type === "text" ? message.content[0].text : "";
+}
+
 // =============================================================================
 // PASS 1: ANALYSIS (Sonnet with Opus fallback)
 // =============================================================================
-interface AnalysisData {
-  outline: string;
-  keyPoints: string[];
-  triggers: string[];
-  projectIndicators: string[];
-  commonErrors: string[];
-  limitations: string[];
-}
-
 async function pass1Analysis(
-  anthropic: Anthropic,
+  ctx: PassContext,
   topic: string,
   scrapedData: ScrapedContent[],
   classification: TopicClassification,
@@ -228,12 +380,16 @@ OUTLINE:
 KEY_POINTS:
 - [Critical facts, APIs, parameters, gotchas]`;
 
-  const response = await anthropic.messages.create({
+  const params: Anthropic.MessageCreateParamsNonStreaming = {
     model,
     max_tokens: TOKENS_ANALYSIS,
     system: SYSTEM_PROMPT_ANALYSIS, // Use minimal prompt for faster analysis
     messages: [{ role: "user", content: userPrompt }],
-  });
+  };
+  ctx.budget?.require(useOpus ? "Pass 1 Opus analysis" : "Pass 1 analysis", estimateCall(params));
+
+  const response = await ctx.anthropic.messages.create(params, { signal: ctx.signal });
+  ctx.ledger?.recordUsage(useOpus ? "pass1-fallback" : "pass1", response.model, response.usage);
 
   const content = response.content[0]?.type === "text" ? response.content[0].text : "";
 
@@ -262,8 +418,10 @@ KEY_POINTS:
   // Check quality thresholds - retry with Opus if too weak
   if (!useOpus && (triggers.length < MIN_TRIGGERS || projectIndicators.length < MIN_INDICATORS || commonErrors.length < MIN_ERRORS)) {
     console.log(`[Pass 1] Weak extraction (triggers=${triggers.length}, indicators=${projectIndicators.length}, errors=${commonErrors.length})`);
-    console.log(`[Pass 1] Retrying with Opus for better extraction...`);
-    return pass1Analysis(anthropic, topic, scrapedData, classification, true);
+    if (canAffordPass(ctx, "Pass 1 Opus re-analysis", { ...params, model: MODEL_QUALITY })) {
+      console.log(`[Pass 1] Retrying with Opus for better extraction...`);
+      return pass1Analysis(ctx, topic, scrapedData, classification, true);
+    }
   }
 
   return { outline, keyPoints, triggers, projectIndicators, commonErrors, limitations };
@@ -273,7 +431,7 @@ KEY_POINTS:
 // PASS 2: CONTENT GENERATION (Opus - quality critical)
 // =============================================================================
 async function pass2ContentGeneration(
-  anthropic: Anthropic,
+  ctx: PassContext,
   topic: string,
   scrapedData: ScrapedContent[],
   classification: TopicClassification,
@@ -283,7 +441,7 @@ async function pass2ContentGeneration(
   const context = buildContext(scrapedData, 6);
   const annotatedSources = buildAnnotatedSources(scrapedData);
 
-  console.log(`[Pass 2] Using Opus, ${Math.min(6, scrapedData.length)} sources (of ${scrapedData.length})`);
+  console.log(`[Pass 2] Using ${ctx.generationModel}, ${Math.min(6, scrapedData.length)} sources (of ${scrapedData.length})`);
 
   const userPrompt = `Generate SKILL.md for "${topic}"
 
@@ -312,7 +470,7 @@ ${context}
 
 ## ANNOTATED SOURCES (for Sources section):
 ${annotatedSources}
-
+${formatTargetVersion(topic, ctx.docVersion)}
 ## GENERATION INSTRUCTIONS
 
 Generate a COMPLETE SKILL.md with these EXACT sections in order:
@@ -321,24 +479,33 @@ Generate a COMPLETE SKILL.md with these EXACT sections in order:
 2. **## Overview**: 2-3 sentences only
 3. **## When to Use**: Bullet list of specific scenarios
 4. **## When NOT to Use**: Limitations, anti-patterns, better alternatives
-5. **## Detecting [Topic] Projects**: Directory structure, config files, package dependencies, import patterns
-6. **## Quick Start Workflow**: Numbered decision tree for the most common task
+5. **## Detecting [Topic] Projects**: Directory structure, config files, package dependencies, import patterns (use the exact dependency names from [package registry] sources)
+6. **## Quick Start Workflow**: Numbered decision tree for the most common task (install commands and versions from [package registry] sources, verbatim)
 7. **## Core Concepts**: Key abstractions with 1-2 sentence explanations
 8. **## Examples**: Small composable snippets (10-20 lines each), labeled "### Example: [Pattern Name]"
 9. **## Guardrails & Boundaries**: "NEVER do X because Y", "ALWAYS do Z before W", security requirements
-10. **## Troubleshooting**: "**Error: \`exact error message\`**" with Cause and Solution
-11. **## Sources**: "- [Title](URL) - What this covers" format
+10. **## Troubleshooting**: "**Error: \`exact error message\`**" with Cause and Solution (prefer sources marked [troubleshooting source])
+11. **## Sources**: "- [Title](URL) - What this covers" format; official docs first, and keep the "(secondary)" label on sources marked secondary
 
-Target: 500-800 lines. Output ONLY the SKILL.md content (no code fences):`;
+Target: ${formatTargetLines(ctx)} lines. Output ONLY the SKILL.md content (no code fences):`;
 
-  const response = await anthropic.messages.create({
-    model: MODEL_QUALITY,
-    max_tokens: TOKENS_GENERATION,
-    system: SYSTEM_PROMPT_BASE,
+  const params: Anthropic.MessageCreateParamsNonStreaming = {
+    model: ctx.generationModel,
+    max_tokens: Math.min(MAX_TOKENS_GENERATION, Math.max(TOKENS_GENERATION, ctx.targetLines.max * TOKENS_PER_LINE)),
+    system: SYSTEM_PROMPT_BASE.replace('{{TARGET_LINES}}', formatTargetLines(ctx)),
     messages: [{ role: "user", content: userPrompt }],
-  });
+  };
+
+  // Required pass: fall back to the fast model before giving up on the budget
+  if (ctx.budget && params.model !== MODEL_FAST && !ctx.budget.canAfford(estimateCall(params))) {
+    console.warn(`[Budget] Pass 2 downgraded from ${params.model} to ${MODEL_FAST}`);
+    ctx.budgetWarnings.push(`Generation downgraded to Sonnet to stay within budget`);
+    params.model = MODEL_FAST;
+  }
+  ctx.budget?.require("Pass 2 generation", estimateCall(params));
+
+  const content = await streamDocumentPass(ctx, 2, params);
 
-  const content = response.content[0]?.type === "text" ? response.content[0].text : "";
   const analysis = analyzeContent(content);
   
   console.log(`[Pass 2] Output: ${analysis.charCount} chars, ${analysis.lineCount} lines`);
@@ -351,7 +518,7 @@ Target: 500-800 lines. Output ONLY the SKILL.md content (no code fences):`;
 // PASS 3: FIX MISSING SECTIONS (Sonnet - surgical fixes)
 // =============================================================================
 async function pass3FixSections(
-  anthropic: Anthropic,
+  ctx: PassContext,
   topic: string,
   scrapedData: ScrapedContent[],
   currentContent: string,
@@ -386,14 +553,18 @@ INSTRUCTIONS:
 
 Output the full SKILL.md (no code fences):`;
 
-  const response = await anthropic.messages.create({
+  const params: Anthropic.MessageCreateParamsNonStreaming = {
     model: MODEL_FAST,
     max_tokens: TOKENS_FIX,
     system: SYSTEM_PROMPT_FIX,
     messages: [{ role: "user", content: userPrompt }],
-  });
+  };
+  if (!canAffordPass(ctx, "Pass 3 section fixes", params)) {
+    return currentContent;
+  }
+
+  const content = await streamDocumentPass(ctx, 3, params);
 
-  const content = response.content[0]?.type === "text" ? response.content[0].text : "";
   const analysis = analyzeContent(content);
   
   console.log(`[Pass 3] Output: ${analysis.charCount} chars, ${analysis.lineCount} lines`);
@@ -414,7 +585,7 @@ function extractSourceUrls(content: string): string[] {
 // PASS 4: VALIDATION (Local analysis + optional Sonnet fix)
 // =============================================================================
 async function pass4Validate(
-  anthropic: Anthropic,
+  ctx: PassContext,
   topic: string,
   scrapedData: ScrapedContent[],
   currentContent: string
@@ -430,12 +601,16 @@ async function pass4Validate(
   if (!analysis.hasSources) criticalMissing.push('Sources');
   if (!analysis.hasGuardrails) criticalMissing.push('Guardrails');
   if (!analysis.hasTroubleshooting) criticalMissing.push('Troubleshooting');
+  // Readers need to know which release the skill covers
+  if (ctx.docVersion && !statesVersion(stripCodeFences(currentContent), ctx.docVersion.target)) {
+    criticalMissing.push(`Targeted version (${ctx.docVersion.target}) stated in the frontmatter description and the Overview`);
+  }
 
   // Validate URLs in final output
   const sourceUrls = extractSourceUrls(currentContent);
   if (sourceUrls.length > 0) {
     console.log(`[Pass 4] Validating ${sourceUrls.length} final source URLs`);
-    const sourceValidation = await validateUrls(sourceUrls);
+    const sourceValidation = await validateUrls(sourceUrls, { signal: ctx.signal });
     const brokenSources = sourceValidation.filter(r => !r.valid);
 
     if (brokenSources.length > 0) {
@@ -447,9 +622,9 @@ async function pass4Validate(
   // Quality warnings (non-blocking)
   if (!analysis.hasSmallExamples) warnings.push('Examples may be too large - prefer 10-20 line snippets');
   if (!analysis.hasErrorMessages) warnings.push('Troubleshooting section should include actual error messages');
-  if (analysis.lineCount < 300) warnings.push(`Only ${analysis.lineCount} lines (target: 500-800)`);
-  if (analysis.lineCount > 1200) warnings.push(`${analysis.lineCount} lines is too long (target: 500-800)`);
-
+  const target = formatTargetLines(ctx);
+  if (analysis.lineCount < Math.round(ctx.targetLines.min * 0.6)) warnings.push(`Only ${analysis.lineCount} lines (target: ${target})`);
+  if (analysis.lineCount > Math.round(ctx.targetLines.max * 1.5)) warnings.push(`${analysis.lineCount} lines is too long (target: ${target})`);
   console.log(`[Pass 4] Local check: ${criticalMissing.length} critical missing, ${warnings.length} warnings`);
 
   // If nothing critical is missing, return immediately (NO LLM call)
@@ -480,20 +655,27 @@ INSTRUCTIONS:
 
 Output the full SKILL.md (no code fences):`;
 
-  const response = await anthropic.messages.create({
+  const params: Anthropic.MessageCreateParamsNonStreaming = {
     model: MODEL_FAST,
     max_tokens: TOKENS_FIX,
     system: SYSTEM_PROMPT_FIX,
     messages: [{ role: "user", content: userPrompt }],
-  });
+  };
+  if (!canAffordPass(ctx, "Pass 4 fix", params)) {
+    warnings.push(...criticalMissing.map(section => `Missing ${section}`));
+    return { content: currentContent, warnings };
+  }
 
-  const fixedContent = response.content[0]?.type === "text" ? response.content[0].text : "";
+  const fixedContent = await streamDocumentPass(ctx, 4, params);
   const fixedAnalysis = analyzeContent(fixedContent);
 
   // Update warnings based on final state
   if (!fixedAnalysis.hasSources) warnings.push("Missing Sources section");
   if (!fixedAnalysis.hasGuardrails) warnings.push("Missing Guardrails");
   if (!fixedAnalysis.hasTroubleshooting) warnings.push("Missing Troubleshooting");
+  if (ctx.docVersion && !statesVersion(stripCodeFences(fixedContent), ctx.docVersion.target)) {
+    warnings.push(`Frontmatter or Overview does not state the targeted version (${ctx.docVersion.target})`);
+  }
 
   console.log(`[Pass 4] Fixed: ${fixedAnalysis.charCount} chars, ${fixedAnalysis.lineCount} lines`);
 
@@ -503,30 +685,64 @@ Output the full SKILL.md (no code fences):`;
 // =============================================================================
 // MAIN GENERATION FUNCTION
 // =============================================================================
+// Resolves with the approved (possibly edited) analysis; rejects to stop the generation
+export type AnalysisReviewer = (analysis: AnalysisData) => Promise<AnalysisData>;
+
+export interface GenerateSkillOptions {
+  signal?: AbortSignal;   // Aborts the in-flight pass and skips the remaining ones
+  onPartialContent?: PartialContentHandler;  // Live text from pass 2 and the fix passes
+  model?: GenerationModel;                   // Main generation model (default: opus)
+  targetLines?: { min: number; max: number }; // Default: TARGET_LINES
+  ledger?: CostLedger;                       // Records token usage of every pass
+  budget?: Budget;                           // Downgrades or skips passes that would not fit
+  reviewAnalysis?: AnalysisReviewer;         // Pause after pass 1 for human approval
+  docVersion?: DocVersionSelection | null;   // Docs version the skill targets (lib/doc-versions.ts)
+}
+
 export async function generateSkill(
   topic: string,
   scrapedData: ScrapedContent[],
   classification: TopicClassification,
-  onProgress?: (phase: string, message: string, progress: number) => void
+  onProgress?: (phase: GenerationPhase, message: string, progress: number) => void,
+  options: GenerateSkillOptions = {}
 ): Promise<{ content: string; warnings: string[] }> {
-  const anthropic = getAnthropicClient(); // Use singleton client
+  const ctx: PassContext = {
+    anthropic: getAnthropicClient(), // Use singleton client
+    signal: options.signal,
+    onPartialContent: options.onPartialContent,
+    ledger: options.ledger,
+    budget: options.budget,
+    budgetWarnings: [],
+    generationModel: GENERATION_MODELS[options.model ?? 'opus'],
+    targetLines: options.targetLines ?? TARGET_LINES,
+    docVersion: options.docVersion ?? null,
+  };
   const startTime = Date.now();
   
   console.log(`\n[Generate] Starting: "${topic}" (${classification.type})`);
-  console.log(`[Generate] Hybrid mode: Sonnet for analysis/fixes, Opus for generation`);
+  console.log(`[Generate] Hybrid mode: Sonnet for analysis/fixes, ${ctx.generationModel} for generation`);
+  console.log(`[Generate] Target: ${formatTargetLines(ctx)} lines${ctx.docVersion ? `, version ${ctx.docVersion.target}` : ""}`);
   console.log(`[Generate] Sources: ${scrapedData.length} with ${scrapedData.reduce((sum, c) => sum + c.markdown.length, 0)} chars`);
 
   try {
     // Pass 1: Analysis (Sonnet with Opus fallback)
     onProgress?.("analyzing", "Extracting triggers, errors, limitations...", 10);
     const pass1Start = Date.now();
-    const analysisData = await pass1Analysis(anthropic, topic, scrapedData, classification);
+    let analysisData = await pass1Analysis(ctx, topic, scrapedData, classification);
     console.log(`[Pass 1] ${((Date.now() - pass1Start) / 1000).toFixed(1)}s`);
 
+    // Review mode: wait for the user to approve or edit the analysis
+    if (options.reviewAnalysis) {
+      onProgress?.("analyzing", "Waiting for outline approval...", 20);
+      const reviewStart = Date.now();
+      analysisData = await options.reviewAnalysis(analysisData);
+      console.log(`[Pass 1] Analysis approved after ${((Date.now() - reviewStart) / 1000).toFixed(1)}s`);
+    }
+
     // Pass 2: Content Generation (Opus)
-    onProgress?.("generating", "Generating content with Opus...", 30);
+    onProgress?.("generating", `Generating content with ${options.model === 'sonnet' ? 'Sonnet' : 'Opus'}...`, 30);
     const pass2Start = Date.now();
-    let content = await pass2ContentGeneration(anthropic, topic, scrapedData, classification, analysisData);
+    let content = await pass2ContentGeneration(ctx, topic, scrapedData, classification, analysisData);
     console.log(`[Pass 2] ${((Date.now() - pass2Start) / 1000).toFixed(1)}s`);
 
     // Check if Pass 3 is needed
@@ -543,7 +759,7 @@ export async function generateSkill(
     if (missingSections.length > 0) {
       onProgress?.("generating", "Fixing missing sections...", 60);
       const pass3Start = Date.now();
-      content = await pass3FixSections(anthropic, topic, scrapedData, content, analysisData, missingSections);
+      content = await pass3FixSections(ctx, topic, scrapedData, content, analysisData, missingSections);
       console.log(`[Pass 3] ${((Date.now() - pass3Start) / 1000).toFixed(1)}s`);
     } else {
       console.log(`[Pass 3] SKIPPED - all sections present`);
@@ -552,11 +768,11 @@ export async function generateSkill(
     // Pass 4: Validation (Local + optional Sonnet fix)
     onProgress?.("validating", "Final validation...", 80);
     const pass4Start = Date.now();
-    const { content: finalContent, warnings } = await pass4Validate(anthropic, topic, scrapedData, content);
+    const { content: finalContent, warnings } = await pass4Validate(ctx, topic, scrapedData, content);
     console.log(`[Pass 4] ${((Date.now() - pass4Start) / 1000).toFixed(1)}s`);
 
     // Clean and return
-    const cleanedContent = stripCodeFences(finalContent);
+    const cleanedContent = markSecondarySources(stripCodeFences(finalContent), scrapedData);
     const finalAnalysis = analyzeContent(cleanedContent);
     const totalTime = ((Date.now() - startTime) / 1000).toFixed(1);
 
@@ -568,8 +784,15 @@ export async function generateSkill(
 
     onProgress?.("finalizing", `Generation finished (${totalTime}s)`, 95);
 
-    return { content: cleanedContent, warnings };
+    return { content: cleanedContent, warnings: [...ctx.budgetWarnings, ...warnings] };
   } catch (error) {
+    if (options.signal?.aborted) {
+      console.log(`[Generate] Aborted after ${((Date.now() - startTime) / 1000).toFixed(1)}s`);
+      throw error;
+    }
+    if (error instanceof BudgetExceededError) {
+      throw error;
+    }
     console.error("[Generate] ERROR:", error);
     throw new Error(`Failed: ${error instanceof Error ? error.message : "Unknown error"}`);
   }
@@ -0,0 +1,72 @@
+import { beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { BudgetExceededError, createBudget, estimateTokens, mergeLimits } from "./budget";
+import { createCostLedger } from "./cost";
+import type { RateTable } from "./config";
+
+const rates: RateTable = {
+  models: { "test-model": { inputPerMTok: 1, outputPerMTok: 10 } },
+  scrape: 0.01,
+  search: 0.001,
+};
+
+// The deployment total lives on globalThis; each test starts a fresh day
+beforeEach(() => {
+  delete (globalThis as { __skillSpend?: unknown }).__skillSpend;
+});
+
+test("mergeLimits keeps the tighter limit per field", () => {
+  assert.deepEqual(
+    mergeLimits({ maxTokens: 1000, maxScrapes: 10 }, { maxScrapes: 5, maxDollars: 2 }),
+    { maxTokens: 1000, maxScrapes: 5, maxDollars: 2 }
+  );
+  assert.deepEqual(mergeLimits({}, undefined), { maxTokens: undefined, maxScrapes: undefined, maxDollars: undefined });
+});
+
+test("estimateTokens rounds up at four characters per token", () => {
+  assert.equal(estimateTokens(""), 0);
+  assert.equal(estimateTokens("abcde"), 2);
+});
+
+test("require throws BudgetExceededError when a step would go over the request limit", () => {
+  const ledger = createCostLedger(rates);
+  const budget = createBudget(ledger, rates, { maxScrapes: 3 }, {});
+  ledger.recordScrape();
+  ledger.recordScrape();
+
+  assert.doesNotThrow(() => budget.require("scrape", { scrapes: 1 }));
+  assert.throws(() => budget.require("crawl", { scrapes: 2 }), (error: unknown) => {
+    assert.ok(error instanceof BudgetExceededError);
+    assert.equal(error.code, 'budget_exceeded');
+    assert.match(error.message, /per-request scrape limit \(3\)/);
+    return true;
+  });
+});
+
+test("canAfford prices tokens with the model's rates", () => {
+  const budget = createBudget(createCostLedger(rates), rates, { maxDollars: 0.01 }, {});
+  assert.equal(budget.canAfford({ model: "test-model", inputTokens: 1000, outputTokens: 900 }), true);
+  assert.equal(budget.canAfford({ model: "test-model", inputTokens: 1000, outputTokens: 1000 }), false);
+});
+
+test("remainingScrapes is bounded by scrape and dollar limits", () => {
+  const ledger = createCostLedger(rates);
+  assert.equal(createBudget(ledger, rates, {}, {}).remainingScrapes(), Infinity);
+  assert.equal(createBudget(ledger, rates, { maxScrapes: 8, maxDollars: 0.05 }, {}).remainingScrapes(), 5);
+
+  ledger.recordScrape();
+  assert.equal(createBudget(ledger, rates, { maxScrapes: 8 }, {}).remainingScrapes(), 7);
+});
+
+test("committed spend counts against the daily deployment limit", () => {
+  const first = createCostLedger(rates);
+  first.recordScrape();
+  first.recordScrape();
+  const firstBudget = createBudget(first, rates, {}, { maxScrapes: 3 });
+  firstBudget.commit();
+  firstBudget.commit();
+
+  const second = createBudget(createCostLedger(rates), rates, {}, { maxScrapes: 3 });
+  assert.equal(second.remainingScrapes(), 1);
+  assert.throws(() => second.require("scrape", { scrapes: 2 }), /daily deployment scrape limit \(3\)/);
+});
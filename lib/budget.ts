@@ -0,0 +1,180 @@
+// Spending caps for a single generation and for the whole deployment
+// Checked before every billable step: optional steps are skipped or downgraded
+// when they would not fit, required ones fail with BudgetExceededError.
+
+import type { RateTable } from "./config";
+import { CostLedger, formatCost } from "./cost";
+import { BudgetLimits } from "@/types";
+
+// Rough prompt size estimate; Anthropic averages ~4 characters per token for English/code
+const CHARS_PER_TOKEN = 4;
+
+export class BudgetExceededError extends Error {
+  readonly code = 'budget_exceeded';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+// Upper bound of what a step may spend
+export interface SpendEstimate {
+  model?: string;
+  inputTokens?: number;
+  outputTokens?: number;   // Use max_tokens: the worst case is what must fit
+  scrapes?: number;
+  searches?: number;
+}
+
+export interface Budget {
+  limits: BudgetLimits;                      // Effective per-request limits
+  canAfford(estimate: SpendEstimate): boolean;
+  remainingScrapes(): number;                // Infinity when unlimited
+  // Throws BudgetExceededError when a required step does not fit
+  require(step: string, estimate: SpendEstimate): void;
+  // Adds this request's spend to the deployment total; call once when the request ends
+  commit(): void;
+}
+
+interface Spend {
+  tokens: number;
+  scrapes: number;
+  dollars: number;
+}
+
+// Deployment-wide spend for the current UTC day, shared across route bundles like the job store
+const globalStore = globalThis as typeof globalThis & { __skillSpend?: Spend & { day: string } };
+
+function getDeploymentSpend(): Spend & { day: string } {
+  const today = new Date().toISOString().slice(0, 10);
+  if (!globalStore.__skillSpend || globalStore.__skillSpend.day !== today) {
+    globalStore.__skillSpend = { day: today, tokens: 0, scrapes: 0, dollars: 0 };
+  }
+  return globalStore.__skillSpend;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// The tighter of two limits, per field
+export function mergeLimits(base: BudgetLimits, override: BudgetLimits = {}): BudgetLimits {
+  const tighter = (a?: number, b?: number) =>
+    a === undefined ? b : b === undefined ? a : Math.min(a, b);
+  return {
+    maxTokens: tighter(base.maxTokens, override.maxTokens),
+    maxScrapes: tighter(base.maxScrapes, override.maxScrapes),
+    maxDollars: tighter(base.maxDollars, override.maxDollars),
+  };
+}
+
+// Names the first limit that `spend` goes over, or null if it fits
+function findExceededLimit(spend: Spend, limits: BudgetLimits, scope: string): string | null {
+  if (limits.maxTokens !== undefined && spend.tokens > limits.maxTokens) {
+    return `${scope} token limit (${limits.maxTokens})`;
+  }
+  if (limits.maxScrapes !== undefined && spend.scrapes > limits.maxScrapes) {
+    return `${scope} scrape limit (${limits.maxScrapes})`;
+  }
+  if (limits.maxDollars !== undefined && spend.dollars > limits.maxDollars) {
+    return `${scope} cost limit (${formatCost(limits.maxDollars)})`;
+  }
+  return null;
+}
+
+export function createBudget(
+  ledger: CostLedger,
+  rates: RateTable,
+  limits: BudgetLimits,
+  deploymentLimits: BudgetLimits
+): Budget {
+  let committed = false;
+
+  const currentSpend = (): Spend => {
+    const cost = ledger.getBreakdown();
+    return {
+      tokens: cost.inputTokens + cost.outputTokens,
+      scrapes: cost.scrapes.count,
+      dollars: cost.totalCost,
+    };
+  };
+
+  const estimateSpend = (estimate: SpendEstimate): Spend => {
+    const rate = estimate.model ? rates.models[estimate.model] : undefined;
+    const inputTokens = estimate.inputTokens ?? 0;
+    const outputTokens = estimate.outputTokens ?? 0;
+    const scrapes = estimate.scrapes ?? 0;
+    return {
+      tokens: inputTokens + outputTokens,
+      scrapes,
+      dollars:
+        (rate ? (inputTokens * rate.inputPerMTok + outputTokens * rate.outputPerMTok) / 1_000_000 : 0) +
+        scrapes * rates.scrape +
+        (estimate.searches ?? 0) * rates.search,
+    };
+  };
+
+  // Which limit the estimate would break, checking this request first, then the deployment
+  const check = (estimate: SpendEstimate): string | null => {
+    const current = currentSpend();
+    const extra = estimateSpend(estimate);
+    const request: Spend = {
+      tokens: current.tokens + extra.tokens,
+      scrapes: current.scrapes + extra.scrapes,
+      dollars: current.dollars + extra.dollars,
+    };
+    const deployment = getDeploymentSpend();
+    return (
+      findExceededLimit(request, limits, "per-request") ??
+      findExceededLimit({
+        tokens: deployment.tokens + request.tokens,
+        scrapes: deployment.scrapes + request.scrapes,
+        dollars: deployment.dollars + request.dollars,
+      }, deploymentLimits, "daily deployment")
+    );
+  };
+
+  return {
+    limits,
+
+    canAfford(estimate) {
+      return check(estimate) === null;
+    },
+
+    remainingScrapes() {
+      const spent = currentSpend();
+      const deployment = getDeploymentSpend();
+      const byDollars = (maxDollars?: number, alreadySpent = 0) =>
+        maxDollars !== undefined && rates.scrape > 0
+          ? Math.floor((maxDollars - alreadySpent - spent.dollars) / rates.scrape)
+          : Infinity;
+      return Math.max(0, Math.min(
+        limits.maxScrapes !== undefined ? limits.maxScrapes - spent.scrapes : Infinity,
+        deploymentLimits.maxScrapes !== undefined ? deploymentLimits.maxScrapes - deployment.scrapes - spent.scrapes : Infinity,
+        byDollars(limits.maxDollars),
+        byDollars(deploymentLimits.maxDollars, deployment.dollars),
+      ));
+    },
+
+    require(step, estimate) {
+      const exceeded = check(estimate);
+      if (exceeded) {
+        const spent = currentSpend();
+        console.warn(`[Budget] ${step} blocked by ${exceeded} (spent ${spent.tokens} tokens, ${spent.scrapes} scrapes, ${formatCost(spent.dollars)})`);
+        throw new BudgetExceededError(`Budget exceeded: ${step} would go over the ${exceeded}`);
+      }
+    },
+
+    commit() {
+      if (committed) return;
+      committed = true;
+      const spent = currentSpend();
+      const deployment = getDeploymentSpend();
+      deployment.tokens += spent.tokens;
+      deployment.scrapes += spent.scrapes;
+      deployment.dollars += spent.dollars;
+      console.log(`[Budget] Deployment spend today: ${deployment.tokens} tokens, ${deployment.scrapes} scrapes, ${formatCost(deployment.dollars)}`);
+    },
+  };
+}
@@ -0,0 +1,37 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { canonicalizeUrl, urlKey } from "./canonical-url";
+
+test("canonicalizeUrl drops fragments, default ports and tracking parameters", () => {
+  assert.equal(
+    canonicalizeUrl("HTTPS://Docs.Example.com:443/guide?utm_source=x&b=2&GCLID=y&a=1#setup"),
+    "https://docs.example.com/guide?a=1&b=2"
+  );
+  assert.equal(canonicalizeUrl("https://example.com/a//b/?ref=home"), "https://example.com/a/b/?ref=home");
+});
+
+test("canonicalizeUrl leaves the path's trailing slash and non-http URLs alone", () => {
+  assert.equal(canonicalizeUrl("https://example.com/docs/"), "https://example.com/docs/");
+  assert.equal(canonicalizeUrl("mailto:team@example.com"), "mailto:team@example.com");
+  assert.equal(canonicalizeUrl("not a url"), "not a url");
+});
+
+test("urlKey treats scheme, www., trailing slashes and index.html as the same page", () => {
+  const key = urlKey("https://example.com/docs/intro");
+  assert.equal(key, "example.com/docs/intro");
+  for (const url of [
+    "http://www.example.com/docs/intro/",
+    "https://example.com/docs/intro/index.html",
+    "https://EXAMPLE.com/docs/intro#install",
+    "https://example.com/docs/intro?utm_campaign=launch",
+  ]) {
+    assert.equal(urlKey(url), key, url);
+  }
+});
+
+test("urlKey keeps meaningful differences", () => {
+  assert.notEqual(urlKey("https://example.com/docs?v=2"), urlKey("https://example.com/docs?v=3"));
+  assert.notEqual(urlKey("https://example.com:8080/docs"), urlKey("https://example.com/docs"));
+  assert.equal(urlKey("https://example.com/"), "example.com");
+  assert.equal(urlKey("mailto:team@example.com"), "mailto:team@example.com");
+});
@@ -0,0 +1,76 @@
+// URL canonicalization
+// The same page is linked in many spellings: "/docs/intro" and "/docs/intro/",
+// http and https, with and without "www.", with tracking parameters or a
+// "#section" fragment. canonicalizeUrl() cleans a URL that is still fetched as
+// is; urlKey() goes further and is only used to tell whether two URLs are the
+// same page (crawler, validator and cache).
+
+// Query parameters that only track the visit; everything else is kept
+const TRACKING_PARAMS = new Set([
+  "gclid",
+  "dclid",
+  "fbclid",
+  "msclkid",
+  "yclid",
+  "igshid",
+  "mc_cid",
+  "mc_eid",
+  "_ga",
+  "_gl",
+  "_hsenc",
+  "_hsmi",
+  "ref_src",
+  "ref_url",
+]);
+
+function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase();
+  return lower.startsWith("utm_") || TRACKING_PARAMS.has(lower);
+}
+
+/**
+ * Lowercases the scheme and host, drops the default port, the fragment and
+ * tracking parameters, and sorts the remaining query parameters. The path is
+ * left alone (servers may treat "/docs" and "/docs/" differently). Strings
+ * that are not http(s) URLs are returned unchanged.
+ */
+export function canonicalizeUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    return url;
+  }
+
+  // URL already lowercases the scheme and host and drops default ports
+  parsed.hash = "";
+  const params = [...parsed.searchParams].filter(([name]) => !isTrackingParam(name));
+  params.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  parsed.search = new URLSearchParams(params).toString();
+  parsed.pathname = parsed.pathname.replace(/\/{2,}/g, "/");
+  return parsed.toString();
+}
+
+/**
+ * Identity of a page: the canonical URL without its scheme and "www.", and
+ * without a trailing slash or "/index.html". Two URLs with the same key are
+ * treated as the same page and only fetched once.
+ */
+export function urlKey(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(canonicalizeUrl(url));
+  } catch {
+    return url;
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    return url;
+  }
+
+  const host = parsed.host.replace(/^www\./, "");
+  const path = parsed.pathname.replace(/\/index\.html?$/, "/").replace(/\/+$/, "");
+  return `${host}${path}${parsed.search}`;
+}
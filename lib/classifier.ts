@@ -28,10 +28,19 @@ Respond in this exact JSON format:
 }`;
 
 import { getAnthropicClient } from "./anthropic-client";
+import { CostLedger } from "./cost";
+import { Budget, estimateTokens } from "./budget";
+
+export interface ClassifyOptions {
+  signal?: AbortSignal;   // Aborts the in-flight Anthropic request
+  ledger?: CostLedger;    // Records token usage of the classification call
+  budget?: Budget;        // Classification is required: throws BudgetExceededError if it does not fit
+}
 
 export async function classifyTopic(
   topic: string,
-  scrapedData: ScrapedContent[]
+  scrapedData: ScrapedContent[],
+  options: ClassifyOptions = {}
 ): Promise<TopicClassification> {
   const anthropic = getAnthropicClient(); // Use singleton client
 
@@ -53,15 +62,24 @@ ${context}
 
 Classify this topic and provide your analysis in the specified JSON format.`;
 
+  const model = "claude-sonnet-4-20250514"; // Fast model for classification
+  const maxTokens = 1000;
+  options.budget?.require("Classification", {
+    model,
+    inputTokens: estimateTokens(CLASSIFICATION_PROMPT + userPrompt),
+    outputTokens: maxTokens,
+  });
+
   try {
     const response = await anthropic.messages.create({
-      model: "claude-sonnet-4-20250514", // Fast model for classification
-      max_tokens: 1000,
+      model,
+      max_tokens: maxTokens,
       system: CLASSIFICATION_PROMPT,
       messages: [
         { role: "user", content: userPrompt }
       ],
-    });
+    }, { signal: options.signal });
+    options.ledger?.recordUsage("classification", response.model, response.usage);
 
     const content = response.content[0]?.type === "text" 
       ? response.content[0].text 
@@ -82,6 +100,10 @@ Classify this topic and provide your analysis in the specified JSON format.`;
 
     return classification;
   } catch (error) {
+    // Never mask a cancellation with the default classification
+    if (options.signal?.aborted) {
+      throw error;
+    }
     console.error("Error classifying topic:", error);
     // Return a default classification if parsing fails
     return {
@@ -0,0 +1,198 @@
+// Deployment configuration
+// Read once from skills.config.json in the project root (or SKILLS_CONFIG_PATH).
+// Every section is optional; missing values fall back to the defaults below.
+
+import * as fs from "fs";
+import * as path from "path";
+import { BudgetLimits, ScraperName } from "@/types";
+
+// USD per million tokens, keyed by Anthropic model id
+export interface ModelRate {
+  inputPerMTok: number;
+  outputPerMTok: number;
+}
+
+export interface RateTable {
+  models: Record<string, ModelRate>;
+  scrape: number;   // USD per Hyperbrowser scrape
+  search: number;   // USD per search API call
+}
+
+export interface BudgetConfig {
+  perRequest: BudgetLimits;     // Applies to every generation; requests may only tighten it
+  perDeployment: BudgetLimits;  // Shared by all generations in this process, per UTC day
+}
+
+export interface SearchConfig {
+  provider: 'serper' | 'searxng' | 'fixture';  // Env SEARCH_PROVIDER overrides
+  searxngUrl?: string;      // Base URL of the SearXNG instance (env SEARXNG_URL)
+  fixturePath?: string;     // JSON fixture file for the fixture provider (env SEARCH_FIXTURE_PATH)
+}
+
+// Deployment-wide domain rules (see lib/domains.ts); the file's lists replace the defaults
+export interface DomainConfig {
+  blocked: string[];
+  preferred: string[];
+  weights: Record<string, number>;
+}
+
+export interface GitHubConfig {
+  source: 'api' | 'clone';    // Read repos through the REST API or a shallow git clone (env GITHUB_SOURCE)
+  cloneDir: string;           // Where clone mode keeps its checkouts
+  // "owner/name" → existing local checkout, used in either mode (offline fixtures)
+  localRepos: Record<string, string>;
+}
+
+export interface RegistryConfig {
+  provider: 'live' | 'mock';  // Env REGISTRY_PROVIDER overrides
+  mockPath?: string;          // JSON fixture for the mock registry (env REGISTRY_MOCK_PATH)
+}
+
+export interface ScraperConfig {
+  default: ScraperName;                   // Env SCRAPER overrides
+  routes: Record<string, ScraperName>;    // Domain → backend; the most specific match wins
+}
+
+// Paywall detection tuning (see lib/paywall.ts)
+export interface PaywallConfig {
+  threshold: number;    // Score (0-100) at which a page counts as paywalled
+  never: string[];      // Domains never treated as paywalled (e.g. docs with a "Sign in" link)
+  always: string[];     // Domains always treated as paywalled
+}
+
+// How we behave towards the sites we crawl (see lib/politeness.ts, lib/robots.ts)
+export interface PolitenessConfig {
+  userAgent: string;        // Sent by the validator and native scraper; robots.txt groups match its product token
+  respectRobots: boolean;   // Skip URLs robots.txt disallows for our user agent
+  hostConcurrency: number;  // Requests in flight per host, shared by validator and scraper
+  hostInterval: number;     // Minimum ms between request starts on one host
+  maxCrawlDelay: number;    // robots.txt Crawl-delay is honoured up to this many seconds
+}
+
+export interface SkillsConfig {
+  rates: RateTable;
+  budgets: BudgetConfig;
+  search: SearchConfig;
+  domains: DomainConfig;
+  github: GitHubConfig;
+  registry: RegistryConfig;
+  scraper: ScraperConfig;
+  paywall: PaywallConfig;
+  politeness: PolitenessConfig;
+}
+
+const CONFIG_FILE = "skills.config.json";
+
+// Public list prices; override in skills.config.json for negotiated rates
+const DEFAULT_CONFIG: SkillsConfig = {
+  rates: {
+    models: {
+      "claude-sonnet-4-20250514": { inputPerMTok: 3, outputPerMTok: 15 },
+      "claude-opus-4-5-20251101": { inputPerMTok: 5, outputPerMTok: 25 },
+    },
+    scrape: 0.005,
+    search: 0.001,
+  },
+  budgets: {
+    perRequest: {},
+    perDeployment: {},
+  },
+  search: {
+    provider: 'serper',
+  },
+  // Social media, video sites and forums make poor documentation sources
+  domains: {
+    blocked: [
+      "youtube.com",
+      "facebook.com",
+      "twitter.com",
+      "reddit.com",
+      "quora.com",
+      "pinterest.com",
+      "tiktok.com",
+      "instagram.com",
+    ],
+    preferred: [],
+    weights: {},
+  },
+  github: {
+    source: 'api',
+    cloneDir: ".cache/repos",
+    localRepos: {},
+  },
+  registry: {
+    provider: 'live',
+  },
+  scraper: {
+    default: 'hyperbrowser',
+    routes: {},
+  },
+  paywall: {
+    threshold: 50,
+    never: [],
+    always: [],
+  },
+  politeness: {
+    userAgent: "Mozilla/5.0 (compatible; HyperSkill/1.0)",
+    respectRobots: true,
+    hostConcurrency: 3,
+    hostInterval: 250,
+    maxCrawlDelay: 10,
+  },
+};
+
+let config: SkillsConfig | null = null;
+
+function readConfigFile(): Partial<SkillsConfig> {
+  const configPath = process.env.SKILLS_CONFIG_PATH || path.join(process.cwd(), CONFIG_FILE);
+  if (!fs.existsSync(configPath)) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+    console.log(`[Config] Loaded ${configPath}`);
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch (error) {
+    // A broken config should not take the app down; run on defaults instead
+    console.error(`[Config] Failed to read ${configPath}, using defaults:`, error);
+    return {};
+  }
+}
+
+export function getConfig(): SkillsConfig {
+  if (!config) {
+    const fileConfig = readConfigFile();
+    config = {
+      rates: {
+        ...DEFAULT_CONFIG.rates,
+        ...fileConfig.rates,
+        models: { ...DEFAULT_CONFIG.rates.models, ...fileConfig.rates?.models },
+      },
+      budgets: {
+        perRequest: { ...DEFAULT_CONFIG.budgets.perRequest, ...fileConfig.budgets?.perRequest },
+        perDeployment: { ...DEFAULT_CONFIG.budgets.perDeployment, ...fileConfig.budgets?.perDeployment },
+      },
+      search: { ...DEFAULT_CONFIG.search, ...fileConfig.search },
+      domains: {
+        ...DEFAULT_CONFIG.domains,
+        ...fileConfig.domains,
+        weights: { ...DEFAULT_CONFIG.domains.weights, ...fileConfig.domains?.weights },
+      },
+      github: {
+        ...DEFAULT_CONFIG.github,
+        ...fileConfig.github,
+        localRepos: { ...DEFAULT_CONFIG.github.localRepos, ...fileConfig.github?.localRepos },
+      },
+      registry: { ...DEFAULT_CONFIG.registry, ...fileConfig.registry },
+      scraper: {
+        ...DEFAULT_CONFIG.scraper,
+        ...fileConfig.scraper,
+        routes: { ...DEFAULT_CONFIG.scraper.routes, ...fileConfig.scraper?.routes },
+      },
+      paywall: { ...DEFAULT_CONFIG.paywall, ...fileConfig.paywall },
+      politeness: { ...DEFAULT_CONFIG.politeness, ...fileConfig.politeness },
+    };
+  }
+  return config;
+}
@@ -0,0 +1,83 @@
+// Per-request cost accounting
+// Every billable call (Anthropic message, Hyperbrowser scrape, search query)
+// is recorded on the request's ledger and priced from the configured rate table.
+// Client-safe: the rate table is passed in, so nothing here touches the filesystem.
+
+import type { RateTable } from "./config";
+import { CostBreakdown, TokenUsageEntry } from "@/types";
+
+// Subset of Anthropic's `usage` object that we bill on
+export interface TokenUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+export interface CostLedger {
+  recordUsage(label: string, model: string, usage: TokenUsage): void;
+  recordScrape(): void;
+  recordSearch(): void;
+  getBreakdown(): CostBreakdown;
+}
+
+// Models missing from the rate table are priced at zero; warn once per model
+const unpricedModels = new Set<string>();
+
+function priceTokens(rates: RateTable, model: string, usage: TokenUsage): number {
+  const rate = rates.models[model];
+  if (!rate) {
+    if (!unpricedModels.has(model)) {
+      unpricedModels.add(model);
+      console.warn(`[Cost] No rate configured for model ${model}, pricing at $0`);
+    }
+    return 0;
+  }
+  return (usage.input_tokens * rate.inputPerMTok + usage.output_tokens * rate.outputPerMTok) / 1_000_000;
+}
+
+export function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+}
+
+export function createCostLedger(rates: RateTable): CostLedger {
+  const tokens: TokenUsageEntry[] = [];
+  let scrapeCount = 0;
+  let searchCount = 0;
+
+  return {
+    recordUsage(label, model, usage) {
+      const entry: TokenUsageEntry = {
+        label,
+        model,
+        inputTokens: usage.input_tokens,
+        outputTokens: usage.output_tokens,
+        cost: priceTokens(rates, model, usage),
+      };
+      tokens.push(entry);
+      console.log(`[Cost] ${label} (${model}): ${entry.inputTokens} in / ${entry.outputTokens} out = ${formatCost(entry.cost)}`);
+    },
+
+    recordScrape() {
+      scrapeCount++;
+    },
+
+    recordSearch() {
+      searchCount++;
+    },
+
+    getBreakdown() {
+      const scrapes = { count: scrapeCount, cost: scrapeCount * rates.scrape };
+      const searches = { count: searchCount, cost: searchCount * rates.search };
+      const tokenCost = tokens.reduce((sum, entry) => sum + entry.cost, 0);
+
+      return {
+        currency: 'USD',
+        tokens: [...tokens],
+        inputTokens: tokens.reduce((sum, entry) => sum + entry.inputTokens, 0),
+        outputTokens: tokens.reduce((sum, entry) => sum + entry.outputTokens, 0),
+        scrapes,
+        searches,
+        totalCost: tokenCost + scrapes.cost + searches.cost,
+      };
+    },
+  };
+}
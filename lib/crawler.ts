@@ -1,11 +1,39 @@
-import { scrapeUrl, scrapeUrls } from "./hyperbrowser";
+import { getScraperFor, scrapeUrls } from "./scraper";
+import { canonicalizeUrl, urlKey } from "./canonical-url";
+import { detectDocVersion, detectUrlVersion } from "./doc-versions";
 import { validateUrls } from "./url-validator";
+import { CostLedger } from "./cost";
+import { Budget } from "./budget";
 import { ScrapedContent } from "@/types";
+import { discoverLlmsTxt, LlmsTxtDiscovery } from "./llms-txt";
+import { discoverSitemap, SitemapDiscovery, SitemapEntry } from "./sitemap";
 
-// Maximum number of pages to crawl per initial URL
+// Maximum number of links queued per crawled page
 const MAX_PAGES_PER_URL = 8;
 // Maximum total URLs to scrape
 const MAX_TOTAL_URLS = 25;
+// Maximum pages scraped per origin (doubled for the official docs origin)
+const MAX_PAGES_PER_ORIGIN = 12;
+// Link hops followed from the seeds
+const DEFAULT_DEPTH = 2;
+// Stop crawling once this many high-quality pages are collected
+const TARGET_QUALITY_PAGES = 15;
+// URLs validated and scraped per round; matches the scraper pool size
+const BATCH_SIZE = 5;
+// Seed origins probed for llms.txt / llms-full.txt, then sitemaps
+const MAX_DISCOVERY_ORIGINS = 5;
+
+// Frontier priorities: seeds always go first; curated lists beat page links
+const SEED_PRIORITY = 1000;
+const LLMS_TXT_BONUS = 20;
+const SITEMAP_BONUS = 10;
+const GUESSED_PATH_PENALTY = -20;
+const DEPTH_PENALTY = 15;
+// Links into the requested docs version, or into another one
+const VERSION_MATCH_BONUS = 10;
+const VERSION_MISMATCH_PENALTY = -30;
+// Anchor text that reads like a docs page
+const DOC_ANCHOR_PATTERN = /\b(guide|reference|api|tutorial|getting started|quick ?start|docs|documentation|example|install)/i;
 
 // Keywords that indicate valuable documentation pages (in URL path)
 const VALUABLE_PATH_KEYWORDS = [
@@ -70,12 +98,20 @@ const EXCLUDED_PATTERNS = [
   "/images/",
   "/fonts/",
   "/media/",
-  "#", // Fragment identifiers
-  "?", // Query strings (often not unique pages)
 ];
 
-function extractLinks(markdown: string, baseUrl: string): string[] {
-  const links: string[] = [];
+export interface ExtractedLink {
+  url: string;
+  text: string;   // Anchor text; empty for raw href attributes
+}
+
+export function extractLinks(markdown: string, baseUrl: string): string[] {
+  return extractLinksWithText(markdown, baseUrl).map(link => link.url);
+}
+
+// Links with their anchor text, deduplicated by URL (the first non-empty text wins)
+export function extractLinksWithText(markdown: string, baseUrl: string): ExtractedLink[] {
+  const links = new Map<string, string>();
   
   // Match markdown links [text](url)
   const mdLinkRegex = /\[([^\]]+)\]\(([^)]+)\)/g;
@@ -97,9 +133,10 @@ function extractLinks(markdown: string, baseUrl: string): string[] {
       }
     }
     
-    // Only include http(s) URLs
+    // Only include http(s) URLs; fragments and tracking parameters are dropped
     if (url.startsWith("http://") || url.startsWith("https://")) {
-      links.push(url);
+      url = canonicalizeUrl(url);
+      if (!links.get(url)) links.set(url, match[1].trim());
     }
   }
   
@@ -121,12 +158,12 @@ function extractLinks(markdown: string, baseUrl: string): string[] {
     }
     
     if (url.startsWith("http://") || url.startsWith("https://")) {
-      links.push(url);
+      url = canonicalizeUrl(url);
+      if (!links.has(url)) links.set(url, "");
     }
   }
   
-  // Deduplicate
-  return [...new Set(links)];
+  return Array.from(links, ([url, text]) => ({ url, text }));
 }
 
 function isExcludedUrl(url: string): boolean {
@@ -191,14 +228,58 @@ function isValuableLink(url: string): boolean {
 
 function isSameDomain(url1: string, url2: string): boolean {
   try {
-    const domain1 = new URL(url1).hostname;
-    const domain2 = new URL(url2).hostname;
+    const domain1 = new URL(url1).hostname.replace(/^www\./, "");
+    const domain2 = new URL(url2).hostname.replace(/^www\./, "");
     return domain1 === domain2;
   } catch {
     return false;
   }
 }
 
+function originOf(url: string): string | null {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Orders sitemap entries by path relevance: doc-style path keywords, topic
+ * words in the path, and sharing a directory with a seed URL. Entries that
+ * are not valuable doc pages are dropped; ties keep the sitemap's newest-first
+ * order.
+ */
+function rankSitemapEntries(entries: SitemapEntry[], topic: string, seeds: string[]): string[] {
+  const topicTokens = topic.toLowerCase().split(/\W+/).filter(token => token.length > 2);
+  const seedDirs = seeds.map(seed => {
+    try {
+      return new URL(seed).pathname.replace(/[^/]*$/, "");
+    } catch {
+      return null;
+    }
+  }).filter((dir): dir is string => dir !== null && dir !== "/");
+
+  return entries
+    .filter(entry => isValuableLink(entry.url))
+    .map((entry, position) => {
+      const path = new URL(entry.url).pathname.toLowerCase();
+      const relevance =
+        VALUABLE_PATH_KEYWORDS.filter(keyword => path.includes(keyword)).length +
+        topicTokens.filter(token => path.includes(token)).length * 2 +
+        (seedDirs.some(dir => path.startsWith(dir.toLowerCase())) ? 2 : 0);
+      return { url: entry.url, relevance, position };
+    })
+    .sort((a, b) => b.relevance - a.relevance || a.position - b.position)
+    .map(({ url }) => url);
+}
+
+interface OriginDiscovery {
+  origin: string;
+  llms: LlmsTxtDiscovery;
+  sitemap: SitemapDiscovery | null;   // Only read when the origin has no llms.txt files
+}
+
 // Generate common documentation subpages for a given docs URL
 function generateCommonDocPaths(baseUrl: string): string[] {
   const commonPaths = [
@@ -234,164 +315,311 @@ function generateCommonDocPaths(baseUrl: string): string[] {
   }
 }
 
+export interface CrawlOptions {
+  signal?: AbortSignal;     // Stops the crawl between and during rounds
+  ledger?: CostLedger;      // Records every scrape
+  budget?: Budget;          // Caps the number of scrapes
+  maxPagesPerUrl?: number;  // Links queued per crawled page. Default: MAX_PAGES_PER_URL
+  maxTotalUrls?: number;    // Pages scraped in total. Default: MAX_TOTAL_URLS
+  maxPagesPerOrigin?: number;   // Pages scraped per origin. Default: MAX_PAGES_PER_ORIGIN
+  depth?: number;           // Link hops from the seeds; 0 = seed pages only. Default: DEFAULT_DEPTH
+  targetPages?: number;     // Stop once this many high-quality pages are in. Default: TARGET_QUALITY_PAGES
+  primaryRoot?: string;     // Official docs root: scraped first, with twice the link and origin allowance
+  targetVersion?: string;   // Docs version the topic asks for; links into other versions rank lower
+  onScrapeFailed?: (result: ScrapedContent) => void;  // Each page that failed after retries
+  onPaywalled?: (result: ScrapedContent) => void;     // Each page dropped as paywalled
+  onRobotsDisallowed?: (url: string) => void;         // Each discovered URL robots.txt disallows
+}
+
+interface FrontierEntry {
+  url: string;
+  depth: number;        // Link hops from a seed; llms.txt and sitemap entries count as 1
+  priority: number;
+  validated: boolean;   // Pre-validated seeds skip the validator
+}
+
+function topicTokensOf(topic: string): string[] {
+  return topic.toLowerCase().split(/\W+/).filter(token => token.length > 2);
+}
+
+// Crawl priority from the URL path, the anchor text, the depth and the docs version
+function scoreUrl(url: string, anchorText: string, depth: number, topicTokens: string[], targetVersion?: string): number {
+  let path: string;
+  try {
+    path = new URL(url).pathname.toLowerCase();
+  } catch {
+    return -Infinity;
+  }
+  const anchor = anchorText.toLowerCase();
+
+  let score = Math.min(VALUABLE_PATH_KEYWORDS.filter(keyword => path.includes(keyword)).length, 2) * 10;
+  score += topicTokens.filter(token => path.includes(token)).length * 8;
+  score += topicTokens.filter(token => anchor.includes(token)).length * 6;
+  if (DOC_ANCHOR_PATTERN.test(anchor)) score += 5;
+  const version = targetVersion ? detectUrlVersion(url) : null;
+  if (version) score += version === targetVersion ? VERSION_MATCH_BONUS : VERSION_MISMATCH_PENALTY;
+  return score - depth * DEPTH_PENALTY;
+}
+
+// Substantial page with structure or code; counts towards early termination
+function isQualityPage(content: ScrapedContent): boolean {
+  return content.markdown.length >= 1500 && (content.markdown.includes("```") || /^#{2,3} /m.test(content.markdown));
+}
+
+/**
+ * Best-first crawl from the seed URLs. A frontier of URLs is scored by path
+ * keywords, topic words in the path and anchor text, and depth; each round
+ * validates and scrapes the best few. Seeds go first. llms.txt, llms-full.txt
+ * and sitemaps discovered on the seed origins replace link following there.
+ * With a `targetVersion`, links into other docs versions rank lower. Pages
+ * come back tagged with their `docVersion`. Stops when the frontier is
+ * empty, the page budget (global or scrape) is spent, or enough high-quality
+ * pages are in.
+ */
 export async function recursiveCrawl(
   initialUrls: string[],
   topic: string,
-  skipValidation = false  // Skip Phase 1 validation if URLs are pre-validated
+  skipValidation = false,  // Seeds are pre-validated; discovered URLs are always validated
+  options: CrawlOptions = {}
 ): Promise<ScrapedContent[]> {
-  const allUrls = new Set<string>(initialUrls);
+  const {
+    signal,
+    ledger,
+    budget,
+    maxPagesPerUrl = MAX_PAGES_PER_URL,
+    maxTotalUrls = MAX_TOTAL_URLS,
+    maxPagesPerOrigin = MAX_PAGES_PER_ORIGIN,
+    depth: maxDepth = DEFAULT_DEPTH,
+    targetPages = TARGET_QUALITY_PAGES,
+    primaryRoot,
+    targetVersion,
+    onScrapeFailed,
+    onPaywalled,
+    onRobotsDisallowed,
+  } = options;
+  const topicTokens = topicTokensOf(topic);
+  const primaryOrigin = primaryRoot ? originOf(primaryRoot) : null;
+  const originBudget = (origin: string) => (origin === primaryOrigin ? maxPagesPerOrigin * 2 : maxPagesPerOrigin);
+
+  let frontier: FrontierEntry[] = [];
+  // Both keyed by urlKey(), so spelling variants of a URL are crawled once
+  const seen = new Set<string>();         // Queued or crawled
   const crawledUrls = new Set<string>();
+  const pagesPerOrigin = new Map<string, number>();
   const results: ScrapedContent[] = [];
-  const paywalledUrls: string[] = [];
-  
-  console.log(`[Crawler] Starting with ${initialUrls.length} initial URLs`);
-  
-  // Phase 1: Scrape initial URLs IN PARALLEL and collect internal links
-  console.log(`[Crawler] Phase 1: Scraping initial URLs (parallel)`);
-  
-  const initialBatch = initialUrls.slice(0, Math.min(initialUrls.length, 5));
-  const phase1Start = Date.now();
-
-  let validatedBatch: string[];
-
-  if (!skipValidation) {
-    // Validate URLs before scraping
-    console.log(`[Crawler] Validating ${initialBatch.length} URLs`);
-    const validationResults = await validateUrls(initialBatch);
-    validatedBatch = validationResults
-      .filter(r => r.valid)
-      .map(r => r.finalUrl || r.url);
-
-    console.log(`[Crawler] ${validatedBatch.length}/${initialBatch.length} valid`);
-  } else {
-    console.log(`[Crawler] Skipping Phase 1 validation (pre-validated)`);
-    validatedBatch = initialBatch;
-  }
+  const resultKeys = new Set<string>();   // Pages in results, by URL and declared canonical URL
+  let paywalledCount = 0;
+  let scrapedCount = 0;
+  let qualityPages = 0;
 
-  // Scrape all validated URLs in parallel
-  const initialResults = await scrapeUrls(validatedBatch);
-  
-  console.log(`[Crawler] Phase 1 parallel scrape: ${((Date.now() - phase1Start) / 1000).toFixed(1)}s`);
-  
-  // Process results and extract links
-  for (const content of initialResults) {
-    crawledUrls.add(content.url);
-    
-    if (content.isPaywalled) {
-      console.log(`[Crawler] Paywalled: ${content.url}`);
-      paywalledUrls.push(content.url);
-      continue;
-    }
-    
-    if (content.success && content.markdown.length > 0) {
-      console.log(`[Crawler] Success: ${content.url} (${content.markdown.length} chars)`);
-      results.push(content);
-      
-      // Extract links from content
-      const extractedLinks = extractLinks(content.markdown, content.url);
-      
-      // Filter to valuable internal links
-      const valuableLinks = extractedLinks.filter(link => {
-        const sameDomain = isSameDomain(link, content.url);
-        const isValuable = isValuableLink(link);
-        const notCrawled = !crawledUrls.has(link);
-        const notQueued = !allUrls.has(link);
-        return sameDomain && isValuable && notCrawled && notQueued;
-      });
-      
-      // Add valuable links to queue
-      const linksToAdd = valuableLinks.slice(0, MAX_PAGES_PER_URL);
-      linksToAdd.forEach(link => allUrls.add(link));
-      
-      // If we found very few links, try common doc paths
-      if (valuableLinks.length < 3) {
-        const commonPaths = generateCommonDocPaths(content.url);
-        for (const path of commonPaths) {
-          if (!crawledUrls.has(path) && !allUrls.has(path) && allUrls.size < MAX_TOTAL_URLS) {
-            allUrls.add(path);
-          }
-        }
+  const enqueue = (url: string, depth: number, priority: number, validated = false) => {
+    if (seen.has(urlKey(url))) return;
+    seen.add(urlKey(url));
+    frontier.push({ url, depth, priority, validated });
+  };
+
+  // The primary root always goes first, then the seeds in order
+  const orderedUrls = primaryRoot && initialUrls.includes(primaryRoot)
+    ? [primaryRoot, ...initialUrls.filter(url => url !== primaryRoot)]
+    : initialUrls;
+  orderedUrls.forEach((url, index) => enqueue(url, 0, SEED_PRIORITY - index, skipValidation));
+
+  console.log(`[Crawler] Starting with ${initialUrls.length} seeds (depth ${maxDepth}, up to ${maxTotalUrls} pages, ${maxPagesPerOrigin} per origin)`);
+
+  // Probe seed origins for llms.txt, then sitemaps, while the first round
+  // scrapes (seed-only crawls skip it)
+  const discoveryOrigins = maxDepth === 0
+    ? []
+    : [...new Set(orderedUrls.map(originOf).filter((origin): origin is string => origin !== null))]
+        .slice(0, MAX_DISCOVERY_ORIGINS);
+  const discovery = Promise.all(discoveryOrigins.map(async (origin): Promise<OriginDiscovery> => {
+    const llms = await discoverLlmsTxt(origin, topic, signal);
+    const hasLlms = llms.index !== null || llms.fullSections.length > 0;
+    return { origin, llms, sitemap: hasLlms ? null : await discoverSitemap(origin, topic, signal) };
+  }));
+  discovery.catch(() => {}); // Awaited once the first round is scraped; only cancellation rejects it
+  const discoveredOrigins = new Set<string>();
+
+  // Discovery order per origin: llms-full.txt is ingested as is; otherwise the
+  // llms.txt index or the sitemap is queued. Links on the pages (and guessed
+  // doc paths) are only followed on origins with none of these.
+  const applyDiscovery = async () => {
+    for (const { origin, llms, sitemap } of await discovery) {
+      if (llms.fullSections.length > 0) {
+        discoveredOrigins.add(origin);
+        results.push(...llms.fullSections);
+        qualityPages += llms.fullSections.filter(isQualityPage).length;
+        continue;
       }
-    } else {
-      console.log(`[Crawler] Failed or empty: ${content.url}`);
+
+      const candidates = llms.index
+        ? llms.index.links.map(link => ({ url: canonicalizeUrl(link.url), text: link.title })).filter(link => !isExcludedUrl(link.url))
+        : sitemap
+          ? rankSitemapEntries(sitemap.entries, topic, orderedUrls.filter(url => originOf(url) === origin)).map(url => ({ url: canonicalizeUrl(url), text: "" }))
+          : null;
+      if (!candidates) continue;
+
+      discoveredOrigins.add(origin);
+      const bonus = llms.index ? LLMS_TXT_BONUS : SITEMAP_BONUS;
+      const queued = candidates.filter(link => !seen.has(urlKey(link.url))).slice(0, originBudget(origin));
+      // List order is a ranking of its own: earlier entries get a little more
+      queued.forEach((link, index) =>
+        enqueue(link.url, 1, scoreUrl(link.url, link.text, 1, topicTokens, targetVersion) + bonus + Math.max(0, 10 - index))
+      );
+      console.log(`[Crawler] ${origin}: queued ${queued.length} URLs from ${llms.index ? "llms.txt" : "sitemap"}`);
     }
-  }
-  
-  console.log(`[Crawler] Phase 1 complete: ${results.length} pages, ${allUrls.size - crawledUrls.size} more queued`);
-  
-  // Phase 2: Scrape discovered URLs
-  const additionalUrls = Array.from(allUrls).filter(url => !crawledUrls.has(url));
-  
-  if (additionalUrls.length > 0) {
-    console.log(`[Crawler] Phase 2: Validating ${additionalUrls.length} URLs`);
+  };
+
+  // Queue a page's best links, or guess common doc paths when a seed has few
+  const followLinks = (content: ScrapedContent, pageDepth: number) => {
+    const links = extractLinksWithText(content.markdown, content.url)
+      .filter(link => isSameDomain(link.url, content.url) && isValuableLink(link.url) && !seen.has(urlKey(link.url)));
+    const allowance = content.url === primaryRoot ? maxPagesPerUrl * 2 : maxPagesPerUrl;
 
-    const phase2Validation = await validateUrls(additionalUrls);
-    const validatedPhase2 = phase2Validation
-      .filter(r => r.valid)
-      .map(r => r.finalUrl || r.url);
+    links
+      .map(link => ({ url: link.url, priority: scoreUrl(link.url, link.text, pageDepth + 1, topicTokens, targetVersion) }))
+      .sort((a, b) => b.priority - a.priority)
+      .slice(0, allowance)
+      .forEach(link => enqueue(link.url, pageDepth + 1, link.priority));
 
-    console.log(`[Crawler] Phase 2: ${validatedPhase2.length}/${additionalUrls.length} valid`);
+    if (pageDepth === 0 && links.length < 3) {
+      generateCommonDocPaths(content.url).forEach(path =>
+        enqueue(path, 1, scoreUrl(path, "", 1, topicTokens, targetVersion) + GUESSED_PATH_PENALTY)
+      );
+    }
+  };
 
-    if (validatedPhase2.length > 0) {
-      console.log(`[Crawler] Phase 2: Scraping ${validatedPhase2.length} validated URLs`);
+  let round = 0;
+  let stopReason = "frontier exhausted";
+  while (frontier.length > 0) {
+    signal?.throwIfAborted();
+    if (scrapedCount >= maxTotalUrls) {
+      stopReason = `page limit (${maxTotalUrls}) reached`;
+      break;
+    }
+    if (qualityPages >= targetPages) {
+      stopReason = `${qualityPages} high-quality pages collected`;
+      break;
+    }
+    round++;
 
+    // Best entries first; those whose origin is out of budget are dropped
+    frontier.sort((a, b) => b.priority - a.priority);
+    const batch: FrontierEntry[] = [];
+    const picked = new Map<string, number>();
+    while (frontier.length > 0 && batch.length < Math.min(BATCH_SIZE, maxTotalUrls - scrapedCount)) {
+      const entry = frontier.shift()!;
+      const origin = originOf(entry.url) ?? entry.url;
+      const used = (pagesPerOrigin.get(origin) ?? 0) + (picked.get(origin) ?? 0);
+      if (crawledUrls.has(urlKey(entry.url)) || used >= originBudget(origin)) continue;
+      picked.set(origin, (picked.get(origin) ?? 0) + 1);
+      batch.push(entry);
+    }
+    if (batch.length === 0) {
+      stopReason = "per-origin page limits reached";
+      break;
+    }
+
+    // Validate discovered URLs; redirects are followed to their final URL
+    const unvalidated = batch.filter(entry => !entry.validated).map(entry => entry.url);
+    const validation = unvalidated.length > 0 ? await validateUrls(unvalidated, { signal }) : [];
+    validation.filter(r => r.robotsDisallowed).forEach(r => onRobotsDisallowed?.(r.url));
+    const validationByUrl = new Map(validation.map(r => [r.url, r]));
+
+    const targets = new Map<string, FrontierEntry>();
+    const targetKeys = new Set<string>();
+    for (const entry of batch) {
+      const result = validationByUrl.get(entry.url);
+      if (!entry.validated && !result?.valid) continue;
+      const url = result?.finalUrl || entry.url;
+      const key = urlKey(url);
+      if (crawledUrls.has(key) || targetKeys.has(key)) continue;
+      seen.add(key);
+      targetKeys.add(key);
+      targets.set(url, entry);
+    }
+
+    const depthCounts = batch.map(entry => entry.depth).join(",");
+    console.log(`[Crawler] Round ${round}: scraping ${targets.size}/${batch.length} (depths ${depthCounts}), ${frontier.length} queued`);
+
+    let contents: ScrapedContent[] = [];
+    if (targets.size > 0) {
       try {
-        const additionalContent = await scrapeUrls(validatedPhase2);
-
-        for (const content of additionalContent) {
-          if (content.isPaywalled) {
-            paywalledUrls.push(content.url);
-          } else if (content.success && content.markdown.length > 100) {
-            console.log(`[Crawler] Added: ${content.url} (${content.markdown.length} chars)`);
-            results.push(content);
-          }
-        }
+        contents = await scrapeUrls(Array.from(targets.keys()), { signal, ledger, budget, onFailed: onScrapeFailed });
       } catch (error) {
-        // Comprehensive error logging for debugging
-        console.error(`[Crawler] Phase 2 scraping failed:`, error);
-        console.error(`[Crawler] Attempted to scrape ${validatedPhase2.length} URLs`);
-        console.error(`[Crawler] Error type: ${error?.constructor?.name}`);
-        if (error instanceof Error) {
-          console.error(`[Crawler] Error message: ${error.message}`);
-          console.error(`[Crawler] Stack trace:`, error.stack);
+        if (signal?.aborted) {
+          throw error;
         }
+        // Nothing in this round succeeded; failures already went to onScrapeFailed
+        console.warn(`[Crawler] Round ${round} produced no pages: ${error instanceof Error ? error.message : error}`);
+      }
+    }
 
-        // Surface failure to users via warnings
-        if (results.length > 0) {
-          const warnings = (results[0] as any)._warnings || [];
-          warnings.push(
-            `Failed to crawl ${validatedPhase2.length} additional pages due to scraping error. ` +
-            `Using ${results.length} pages from initial crawl only.`
-          );
-          (results[0] as any)._warnings = warnings;
-        }
+    for (const [url, entry] of targets) {
+      crawledUrls.add(urlKey(url));
+      crawledUrls.add(urlKey(entry.url));
+      const origin = originOf(url) ?? url;
+      pagesPerOrigin.set(origin, (pagesPerOrigin.get(origin) ?? 0) + 1);
+      scrapedCount++;
+    }
 
-        console.warn(`[Crawler] Continuing with ${results.length} pages from Phase 1`);
-      }
+    // Discovery must be in before any links are followed: on origins it
+    // covers, it replaces link following and guessed doc paths
+    if (round === 1) {
+      await applyDiscovery();
     }
-  }
-  
-  console.log(`[Crawler] COMPLETE: ${results.length} successful, ${paywalledUrls.length} paywalled`);
-  
-  // Store paywalled info
-  if (paywalledUrls.length > 0 && results.length > 0) {
-    (results[0] as any)._paywalledUrls = paywalledUrls;
-  }
-  
-  return results;
-}
 
-export function getPaywalledUrls(results: ScrapedContent[]): string[] {
-  const paywalled: string[] = [];
-  
-  for (const result of results) {
-    if (result.isPaywalled) {
-      paywalled.push(result.url);
+    for (const content of contents) {
+      // Fallback pages (paywalled, but substantial and all the batch had) are kept
+      if (content.isPaywalled && !content.fallbackUsed) {
+        console.log(`[Crawler] Paywalled: ${content.url}`);
+        paywalledCount++;
+        onPaywalled?.(content);
+        continue;
+      }
+
+      // Pages declaring a canonical URL we already have are copies of it
+      if (content.canonicalUrl && resultKeys.has(urlKey(content.canonicalUrl))) {
+        console.log(`[Crawler] Duplicate of ${content.canonicalUrl}: ${content.url}`);
+        continue;
+      }
+
+      const pageDepth = targets.get(content.url)?.depth ?? 0;
+      // Discovered pages need some substance; seeds are kept as long as they have content
+      if (!content.success || content.markdown.length <= (pageDepth === 0 ? 0 : 100)) {
+        console.log(`[Crawler] Failed or empty: ${content.url}`);
+        continue;
+      }
+
+      console.log(`[Crawler] Added: ${content.url} (depth ${pageDepth}, ${content.markdown.length} chars)`);
+      results.push(content);
+      resultKeys.add(urlKey(content.url));
+      if (content.canonicalUrl) {
+        // The canonical page itself need not be fetched again
+        const canonicalKey = urlKey(content.canonicalUrl);
+        resultKeys.add(canonicalKey);
+        crawledUrls.add(canonicalKey);
+        seen.add(canonicalKey);
+      }
+      if (isQualityPage(content)) qualityPages++;
+
+      if (pageDepth < maxDepth && !discoveredOrigins.has(originOf(content.url) ?? "")) {
+        followLinks(content, pageDepth);
+      }
     }
-    if ((result as any)._paywalledUrls) {
-      paywalled.push(...(result as any)._paywalledUrls);
+
+    // Out of scrape budget: only free (non-billable) backends can continue
+    if (budget && budget.remainingScrapes() === 0) {
+      frontier = frontier.filter(entry => !getScraperFor(entry.url).billable);
+      stopReason = "scrape budget spent";
     }
   }
-  
-  return [...new Set(paywalled)];
+
+  console.log(`[Crawler] COMPLETE: ${results.length} successful, ${paywalledCount} paywalled after ${round} rounds (${stopReason})`);
+
+  // Tag each page with the docs version its URL or banner names
+  return results.map(content => {
+    const docVersion = detectDocVersion(content.url, content.markdown);
+    return docVersion ? { ...content, docVersion } : content;
+  });
 }
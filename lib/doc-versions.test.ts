@@ -0,0 +1,67 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ScrapedContent } from "@/types";
+import { detectDocVersion, detectRequestedVersion, detectUrlVersion, selectDocVersion } from "./doc-versions";
+
+function source(url: string, docVersion?: string): ScrapedContent {
+  return { url, markdown: "", success: true, crawledAt: "2026-01-01T00:00:00.000Z", docVersion };
+}
+
+test("detectUrlVersion reads versioned docs paths", () => {
+  assert.equal(detectUrlVersion("https://nextjs.org/docs/14/app"), "14");
+  assert.equal(detectUrlVersion("https://example.com/v18.2/hooks"), "18");
+  assert.equal(detectUrlVersion("https://example.com/docs/2.x/intro"), "2");
+  assert.equal(detectUrlVersion("https://example.com/version-0.3/intro"), "0.3");
+  assert.equal(detectUrlVersion("https://docs.example.com/3/intro"), "3");
+  assert.equal(detectUrlVersion("https://example.com/docs/canary/intro"), "canary");
+});
+
+test("detectUrlVersion ignores API versions, aliases, page ids and years", () => {
+  assert.equal(detectUrlVersion("https://example.com/api/v1/users"), null);
+  assert.equal(detectUrlVersion("https://example.com/docs/latest/v2/intro"), null);
+  assert.equal(detectUrlVersion("https://example.com/docs/404"), null);
+  assert.equal(detectUrlVersion("https://example.com/blog/2024.1/post"), null);
+  assert.equal(detectUrlVersion("not a url"), null);
+});
+
+test("detectDocVersion falls back to the page banner", () => {
+  assert.equal(detectDocVersion("https://example.com/docs/v3/intro", "This is documentation for X 2.x"), "3");
+  assert.equal(detectDocVersion("https://example.com/intro", "This is documentation for Docusaurus 2.x."), "2");
+  assert.equal(detectDocVersion("https://example.com/intro", "You are viewing the docs for version 5.1"), "5");
+  assert.equal(detectDocVersion("https://example.com/intro", "This is unreleased documentation."), "next");
+  assert.equal(detectDocVersion("https://example.com/intro", "Install with npm."), null);
+});
+
+test("detectRequestedVersion takes prefixed versions and numbers after a product name", () => {
+  assert.equal(detectRequestedVersion("Next.js 14 App Router"), "14");
+  assert.equal(detectRequestedVersion("React v18"), "18");
+  assert.equal(detectRequestedVersion("react version 18 hooks"), "18");
+  assert.equal(detectRequestedVersion("Svelte 5.x"), "5");
+  assert.equal(detectRequestedVersion("Python 3 asyncio"), "3");
+  assert.equal(detectRequestedVersion("Top 10 React 18 hooks"), "18");
+});
+
+test("detectRequestedVersion ignores counts and protocol versions", () => {
+  assert.equal(detectRequestedVersion("OAuth 2 flows"), null);
+  assert.equal(detectRequestedVersion("Top 10 React hooks"), null);
+  assert.equal(detectRequestedVersion("HTTP 2"), null);
+  assert.equal(detectRequestedVersion("10 React hooks"), null);
+  assert.equal(detectRequestedVersion("Supabase Auth"), null);
+});
+
+test("selectDocVersion prefers the requested version, else the newest stable one", () => {
+  const sources = [
+    source("https://a.example.com", "13"),
+    source("https://b.example.com", "14"),
+    source("https://c.example.com", "14"),
+    source("https://d.example.com", "canary"),
+    source("https://e.example.com"),
+  ];
+  const versions = { "13": 1, "14": 2, canary: 1 };
+
+  assert.deepEqual(selectDocVersion(sources, "Next.js 13"), { target: "13", basis: "request", versions });
+  assert.deepEqual(selectDocVersion(sources, "Next.js 12"), { target: "14", basis: "latest", versions, requested: "12" });
+  assert.deepEqual(selectDocVersion(sources, "Next.js"), { target: "14", basis: "latest", versions });
+  assert.equal(selectDocVersion([source("https://a.example.com", "canary")], "Next.js"), null);
+  assert.equal(selectDocVersion([source("https://a.example.com")], "Next.js"), null);
+});
@@ -0,0 +1,153 @@
+// Documentation version detection
+// Docs sites keep old releases online (/v13/, /docs/2.x/, /en/3.2/) and search
+// mixes them freely, so a skill can end up blending APIs from several majors.
+// Pages are tagged with the version their URL or version banner names; the
+// pipeline then targets one version per request: the one the topic asks for,
+// else the newest stable one among the sources.
+
+import { DocVersionSelection, ScrapedContent } from "@/types";
+
+// Path segments naming a prerelease docs channel
+const PRERELEASE_SEGMENTS = ["canary", "next", "nightly", "beta", "alpha", "rc", "unstable", "dev", "preview"];
+// Segments that alias the current release; treated as unversioned
+const CURRENT_SEGMENTS = ["latest", "stable", "current"];
+// Segments after which a bare number is a docs version ("/docs/14/")
+const DOCS_SEGMENTS = ["docs", "doc", "documentation", "reference", "manual", "en"];
+// Larger bare numbers are page ids and status pages ("/docs/404"), not majors
+const MAX_BARE_VERSION = 100;
+
+// Banners near the top of a page ("This is documentation for Docusaurus 2.x")
+const CONTENT_VERSION_PATTERNS = [
+  /(?:docs|documentation) for (?:[\w.-]+ ){0,3}?(?:version |v)?(\d+(?:\.(?:\d+|x))?)\b/i,
+  /you(?:'re| are) (?:viewing|reading) .{0,40}?(?:version |v)(\d+(?:\.(?:\d+|x))?)\b/i,
+  /^version:?\s*v?(\d+(?:\.(?:\d+|x))?)\b/im,
+];
+const UNRELEASED_PATTERN = /\bunreleased (?:docs|documentation)\b/i;
+const BANNER_LENGTH = 1500;
+
+// Major for grouping; 0.x releases break between minors, so they keep theirs
+function versionKey(version: string): string | null {
+  const match = version.match(/^(\d+)(?:\.(\d+|x))?/);
+  if (!match) return null;
+  const major = Number(match[1]);
+  // Years and build numbers are not release versions
+  if (major >= 1000) return null;
+  return major === 0 && match[2] && match[2] !== "x" ? `0.${Number(match[2])}` : String(major);
+}
+
+/**
+ * Docs version named by a URL path: "/v14/", "/14.x/", "/version-2.0/",
+ * "/docs/3/" (or "/3/" on a docs. host) or a prerelease channel ("/canary/").
+ * "/api/v1/" is an API version, not a docs version, and is ignored.
+ */
+export function detectUrlVersion(url: string): string | null {
+  let segments: string[];
+  let docsHost: boolean;
+  try {
+    const parsed = new URL(url);
+    segments = parsed.pathname.toLowerCase().split("/").filter(Boolean);
+    docsHost = parsed.hostname.startsWith("docs.");
+  } catch {
+    return null;
+  }
+
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    const previous = segments[i - 1] ?? "";
+    if (previous === "api") continue;
+    if (CURRENT_SEGMENTS.includes(segment)) return null;
+    if (PRERELEASE_SEGMENTS.includes(segment)) return segment;
+
+    const prefixed = segment.match(/^(?:v|version-?)(\d+(?:\.(?:\d+|x)){0,2})$/);
+    const dotted = segment.match(/^(\d+\.(?:\d+|x)(?:\.(?:\d+|x))?)$/);
+    const bare = (DOCS_SEGMENTS.includes(previous) || (docsHost && i === 0)) && Number(segment) < MAX_BARE_VERSION
+      ? segment.match(/^(\d+)$/)
+      : null;
+    const version = (prefixed ?? dotted ?? bare)?.[1];
+    if (version) {
+      const key = versionKey(version);
+      if (key) return key;
+    }
+  }
+  return null;
+}
+
+// Version a page declares about itself; the URL wins over the page banner
+export function detectDocVersion(url: string, markdown: string): string | null {
+  const fromUrl = detectUrlVersion(url);
+  if (fromUrl) return fromUrl;
+
+  const banner = markdown.slice(0, BANNER_LENGTH);
+  if (UNRELEASED_PATTERN.test(banner)) return "next";
+  for (const pattern of CONTENT_VERSION_PATTERNS) {
+    const match = banner.match(pattern);
+    const key = match ? versionKey(match[1]) : null;
+    if (key) return key;
+  }
+  return null;
+}
+
+// Words a bare number follows without being a product version: counts
+// ("Top 10 React hooks") and protocol or spec versions ("OAuth 2", "HTTP 2")
+const NON_PRODUCT_WORDS = new Set([
+  "top", "best", "first", "last", "step", "part", "chapter", "lesson", "day", "week",
+  "in", "of", "for", "with", "and", "or", "to",
+  "http", "oauth", "tls", "ssl", "ipv", "html", "web",
+]);
+
+// "Next.js 14 App Router" → "14", "React v18" → "18", "Svelte 5.x" → "5".
+// A bare number only counts right after a product name.
+export function detectRequestedVersion(topic: string): string | null {
+  const prefixed = topic.match(/\b(?:v|version\s*)(\d+(?:\.(?:\d+|x)){0,2})\b/i);
+  if (prefixed) return versionKey(prefixed[1]);
+
+  for (const match of topic.matchAll(/(?:^|\s)([a-z][\w.+-]*)\s+(\d+(?:\.(?:\d+|x)){0,2})(?=\s|$)/gi)) {
+    if (!NON_PRODUCT_WORDS.has(match[1].toLowerCase())) return versionKey(match[2]);
+  }
+  return null;
+}
+
+function isStable(version: string): boolean {
+  return /^\d/.test(version);
+}
+
+function compareVersions(a: string, b: string): number {
+  const [aMajor, aMinor = 0] = a.split(".").map(Number);
+  const [bMajor, bMinor = 0] = b.split(".").map(Number);
+  return aMajor - bMajor || aMinor - bMinor;
+}
+
+/**
+ * Chooses the version a generation targets from the sources' `docVersion`
+ * tags: the version named in the topic when some source has it, else the
+ * newest stable version. Null when no source is versioned. Unversioned
+ * sources are assumed to document the current release and always match.
+ */
+export function selectDocVersion(sources: ScrapedContent[], topic: string): DocVersionSelection | null {
+  const versions: Record<string, number> = {};
+  sources.forEach(source => {
+    if (source.docVersion) versions[source.docVersion] = (versions[source.docVersion] ?? 0) + 1;
+  });
+  if (Object.keys(versions).length === 0) return null;
+
+  const requested = detectRequestedVersion(topic);
+  if (requested && versions[requested]) {
+    return { target: requested, basis: 'request', versions };
+  }
+
+  const stable = Object.keys(versions).filter(isStable).sort(compareVersions);
+  if (stable.length === 0) {
+    // Only prerelease pages: nothing to prefer
+    return null;
+  }
+  return {
+    target: stable[stable.length - 1],
+    basis: 'latest',
+    versions,
+    ...(requested ? { requested } : {}),
+  };
+}
+
+export function matchesDocVersion(source: ScrapedContent, selection: DocVersionSelection | null): boolean {
+  return !selection || !source.docVersion || source.docVersion === selection.target;
+}
@@ -0,0 +1,73 @@
+// Domain allow/deny lists and trust weights
+// Deployment rules come from skills.config.json ("domains"); a request's
+// options.domains is applied on top and wins where the two disagree.
+
+import { DomainRules } from "@/types";
+import { getConfig } from "./config";
+
+// Fully resolved rules; every field present
+export type ResolvedDomainRules = Required<DomainRules>;
+
+function normalizeDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/^\*?\./, "").replace(/^www\./, "");
+}
+
+function hostnameOf(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+}
+
+// Exact host or any subdomain of it
+export function matchesDomain(url: string, domain: string): boolean {
+  const host = hostnameOf(url);
+  const target = normalizeDomain(domain);
+  return host !== null && (host === target || host.endsWith(`.${target}`));
+}
+
+/**
+ * Merges the deployment rules with a request's overrides. Lists are combined;
+ * a domain the request prefers is unblocked and a domain it blocks is no
+ * longer preferred. Request weights replace deployment weights per domain.
+ */
+export function resolveDomainRules(overrides: DomainRules = {}): ResolvedDomainRules {
+  const { domains } = getConfig();
+  const requestBlocked = (overrides.blocked ?? []).map(normalizeDomain);
+  const requestPreferred = (overrides.preferred ?? []).map(normalizeDomain);
+
+  const blocked = new Set(domains.blocked.map(normalizeDomain));
+  const preferred = new Set(domains.preferred.map(normalizeDomain));
+  requestPreferred.forEach(domain => {
+    blocked.delete(domain);
+    preferred.add(domain);
+  });
+  requestBlocked.forEach(domain => {
+    preferred.delete(domain);
+    blocked.add(domain);
+  });
+
+  const weights: Record<string, number> = {};
+  for (const [domain, weight] of Object.entries({ ...domains.weights, ...overrides.weights })) {
+    weights[normalizeDomain(domain)] = weight;
+  }
+
+  return { blocked: [...blocked], preferred: [...preferred], weights };
+}
+
+export function isBlocked(url: string, rules: ResolvedDomainRules): boolean {
+  return rules.blocked.some(domain => matchesDomain(url, domain));
+}
+
+export function isPreferred(url: string, rules: ResolvedDomainRules): boolean {
+  return rules.preferred.some(domain => matchesDomain(url, domain));
+}
+
+// Weight of the most specific matching domain ("docs.example.com" beats "example.com")
+export function domainWeight(url: string, rules: ResolvedDomainRules): number {
+  const match = Object.keys(rules.weights)
+    .filter(domain => matchesDomain(url, domain))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? rules.weights[match] : 0;
+}
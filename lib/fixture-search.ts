@@ -0,0 +1,38 @@
+import * as fs from "fs";
+import * as path from "path";
+import { SearchResult } from "@/types";
+import type { SearchProvider } from "./search";
+
+// Canned results for offline development and tests. The file maps queries
+// (matched case-insensitively) to results, with "*" as the fallback:
+//
+//   { "supabase auth": [{ "title": "...", "link": "...", "snippet": "..." }], "*": [] }
+const DEFAULT_FIXTURE_PATH = "fixtures/search.json";
+
+function normalizeQuery(query: string): string {
+  return query.toLowerCase().trim().replace(/\s+/g, " ");
+}
+
+export function createFixtureProvider(fixturePath = DEFAULT_FIXTURE_PATH): SearchProvider {
+  const resolvedPath = path.resolve(process.cwd(), fixturePath);
+
+  return {
+    name: "fixture",
+    billable: false,
+
+    async search(query: string, count: number): Promise<SearchResult[]> {
+      // Re-read on every call so fixtures can be edited without a restart
+      if (!fs.existsSync(resolvedPath)) {
+        throw new Error(`Search fixture file not found: ${resolvedPath}`);
+      }
+      const fixtures: Record<string, SearchResult[]> = JSON.parse(fs.readFileSync(resolvedPath, "utf-8"));
+
+      const normalized = normalizeQuery(query);
+      const match = Object.keys(fixtures).find(key => key !== "*" && normalizeQuery(key) === normalized);
+      const results = match ? fixtures[match] : fixtures["*"] ?? [];
+
+      console.log(`[Search] Fixture ${match ? `hit for "${match}"` : "fallback"}: ${results.length} results`);
+      return results.slice(0, count);
+    },
+  };
+}
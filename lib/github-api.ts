@@ -0,0 +1,61 @@
+import type { RepoReader, RepoRef, RepoRelease } from "./github";
+
+// GitHub REST API reader. Unauthenticated calls are limited to 60/hour;
+// set GITHUB_TOKEN to raise that.
+const API_BASE = "https://api.github.com";
+const RAW_BASE = "https://raw.githubusercontent.com";
+
+async function fetchGitHub(url: string, signal?: AbortSignal): Promise<Response> {
+  const headers: Record<string, string> = {
+    Accept: "application/vnd.github+json",
+    "User-Agent": "hyperskill",
+  };
+  if (process.env.GITHUB_TOKEN) {
+    headers.Authorization = `Bearer ${process.env.GITHUB_TOKEN}`;
+  }
+
+  const response = await fetch(url, { headers, signal });
+  if (!response.ok) {
+    throw new Error(`GitHub API error: ${response.status} ${response.statusText} (${url})`);
+  }
+  return response;
+}
+
+export async function createGitHubApiReader(repo: RepoRef, signal?: AbortSignal): Promise<RepoReader> {
+  const repoPath = `${repo.owner}/${repo.name}`;
+  const info: { default_branch: string } = await (await fetchGitHub(`${API_BASE}/repos/${repoPath}`, signal)).json();
+  const ref = info.default_branch;
+
+  return {
+    source: 'api',
+    ref,
+
+    async listFiles(): Promise<string[]> {
+      const tree: { tree: { path: string; type: string }[]; truncated?: boolean } = await (
+        await fetchGitHub(`${API_BASE}/repos/${repoPath}/git/trees/${encodeURIComponent(ref)}?recursive=1`, signal)
+      ).json();
+      if (tree.truncated) {
+        console.warn(`[GitHub] File tree of ${repoPath} truncated by the API`);
+      }
+      return tree.tree.filter(item => item.type === "blob").map(item => item.path);
+    },
+
+    async readFile(path: string): Promise<string> {
+      const encodedPath = path.split("/").map(encodeURIComponent).join("/");
+      return (await fetchGitHub(`${RAW_BASE}/${repoPath}/${encodeURIComponent(ref)}/${encodedPath}`, signal)).text();
+    },
+
+    async listReleases(limit: number): Promise<RepoRelease[]> {
+      const releases: { tag_name: string; name: string | null; published_at: string | null; body: string | null; draft: boolean }[] =
+        await (await fetchGitHub(`${API_BASE}/repos/${repoPath}/releases?per_page=${limit}`, signal)).json();
+      return releases
+        .filter(release => !release.draft && release.body)
+        .map(release => ({
+          tag: release.tag_name,
+          name: release.name || release.tag_name,
+          publishedAt: release.published_at ?? undefined,
+          body: release.body!,
+        }));
+    },
+  };
+}
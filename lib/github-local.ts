@@ -0,0 +1,75 @@
+import * as fs from "fs";
+import * as path from "path";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import type { RepoReader, RepoRef } from "./github";
+
+const execFileAsync = promisify(execFile);
+
+const CLONE_TIMEOUT_MS = 60000;
+// Never descended into when listing a checkout
+const SKIPPED_DIRECTORIES = new Set([".git", "node_modules", "dist", "build", "target", "vendor"]);
+
+function walk(root: string, relative = ""): string[] {
+  const files: string[] = [];
+  for (const dirent of fs.readdirSync(path.join(root, relative), { withFileTypes: true })) {
+    const childPath = relative ? `${relative}/${dirent.name}` : dirent.name;
+    if (dirent.isDirectory()) {
+      if (!SKIPPED_DIRECTORIES.has(dirent.name)) files.push(...walk(root, childPath));
+    } else if (dirent.isFile()) {
+      files.push(childPath);
+    }
+  }
+  return files;
+}
+
+// Reads a checkout on disk: a clone, or a fixture directory for offline runs.
+// Releases are not part of a checkout; CHANGELOG covers them there.
+export function createLocalRepoReader(checkoutPath: string): RepoReader {
+  const root = path.resolve(process.cwd(), checkoutPath);
+  if (!fs.existsSync(root)) {
+    throw new Error(`Local repository not found: ${root}`);
+  }
+
+  return {
+    source: 'local',
+    ref: "HEAD",
+
+    async listFiles(): Promise<string[]> {
+      return walk(root);
+    },
+
+    async readFile(filePath: string): Promise<string> {
+      const resolved = path.resolve(root, filePath);
+      if (!resolved.startsWith(root + path.sep)) {
+        throw new Error(`Path escapes repository: ${filePath}`);
+      }
+      return fs.promises.readFile(resolved, "utf-8");
+    },
+
+    async listReleases(): Promise<[]> {
+      return [];
+    },
+  };
+}
+
+/**
+ * Shallow-clones a repo into `cloneDir` and returns the checkout path.
+ * An existing clone is reused as is.
+ */
+export async function cloneRepository(repo: RepoRef, cloneDir: string, signal?: AbortSignal): Promise<string> {
+  const target = path.resolve(process.cwd(), cloneDir, `${repo.owner}__${repo.name}`);
+  if (fs.existsSync(path.join(target, ".git"))) {
+    console.log(`[GitHub] Reusing clone ${target}`);
+    return target;
+  }
+
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  console.log(`[GitHub] Cloning ${repo.owner}/${repo.name} into ${target}`);
+  await execFileAsync(
+    "git",
+    ["clone", "--depth", "1", "--quiet", `https://github.com/${repo.owner}/${repo.name}.git`, target],
+    { signal, timeout: CLONE_TIMEOUT_MS }
+  );
+  return target;
+}
@@ -0,0 +1,162 @@
+// GitHub repository ingestion
+// Repos found by search or given as seeds are read file by file instead of
+// being scraped as web pages: README, docs/ markdown, examples/ and release
+// notes each become their own ScrapedContent entry with the repo file path.
+
+import { RepoFile, RepoFileKind, ScrapedContent } from "@/types";
+import { getConfig } from "./config";
+import { createGitHubApiReader } from "./github-api";
+import { cloneRepository, createLocalRepoReader } from "./github-local";
+
+export interface RepoRef {
+  owner: string;
+  name: string;
+}
+
+export interface RepoRelease {
+  tag: string;
+  name: string;
+  publishedAt?: string;
+  body: string;
+}
+
+// Where repo files are read from: the REST API or a local checkout
+export interface RepoReader {
+  source: 'api' | 'local';
+  ref: string;                                    // Branch or commit, used in blob URLs
+  listFiles(): Promise<string[]>;                 // Repo-relative paths with "/" separators
+  readFile(path: string): Promise<string>;
+  listReleases(limit: number): Promise<RepoRelease[]>;  // Newest first; [] when unavailable
+}
+
+export interface GitHubIngestOptions {
+  signal?: AbortSignal;
+}
+
+const MAX_DOC_FILES = 8;
+const MAX_EXAMPLE_FILES = 4;
+const MAX_RELEASES = 5;
+// Whole files are kept; generation trims them to maxContentLength later
+const MAX_FILE_CHARS = 30000;
+
+const DOC_EXTENSIONS = /\.(md|mdx|rst|txt)$/i;
+const EXAMPLE_EXTENSIONS = /\.(md|ts|tsx|js|jsx|mjs|py|rs|go|rb|java|kt|swift|sh|toml|ya?ml)$/i;
+
+// Path segments GitHub uses for repo pages that are not repositories
+const RESERVED_OWNERS = new Set(["orgs", "topics", "marketplace", "features", "settings", "search", "sponsors", "collections"]);
+
+/**
+ * Recognises github.com/owner/name and its tree/blob pages. Issues, pulls
+ * and other sub-pages are left to the web scraper.
+ */
+export function parseGitHubRepoUrl(url: string): RepoRef | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.hostname !== "github.com" && parsed.hostname !== "www.github.com") return null;
+
+    const [owner, name, section] = parsed.pathname.split("/").filter(Boolean);
+    if (!owner || !name || RESERVED_OWNERS.has(owner)) return null;
+    if (section && section !== "tree" && section !== "blob") return null;
+
+    return { owner, name: name.replace(/\.git$/, "") };
+  } catch {
+    return null;
+  }
+}
+
+function classifyPath(path: string): RepoFileKind | null {
+  const lower = path.toLowerCase();
+  if (!lower.includes("/")) {
+    if (/^readme(\.(md|mdx|rst|txt))?$/.test(lower)) return 'readme';
+    if (/^(changelog|changes|history)(\.(md|rst|txt))?$/.test(lower)) return 'changelog';
+    return null;
+  }
+  if (/^(docs?|documentation)\//.test(lower) && DOC_EXTENSIONS.test(lower)) return 'docs';
+  if (/^examples?\//.test(lower) && EXAMPLE_EXTENSIONS.test(lower)) return 'example';
+  return null;
+}
+
+// Shallow, short paths first: top-level guides before deep reference pages
+function byDepthThenName(a: string, b: string): number {
+  return a.split("/").length - b.split("/").length || a.localeCompare(b);
+}
+
+function languageOf(path: string): string {
+  const extension = path.split(".").pop() ?? "";
+  return extension === "md" ? "markdown" : extension;
+}
+
+async function getRepoReader(repo: RepoRef, signal?: AbortSignal): Promise<RepoReader> {
+  const { github } = getConfig();
+  const fullName = `${repo.owner}/${repo.name}`;
+
+  const localPath = github.localRepos[fullName];
+  if (localPath) {
+    return createLocalRepoReader(localPath);
+  }
+
+  const source = (process.env.GITHUB_SOURCE as 'api' | 'clone' | undefined) || github.source;
+  if (source === 'clone') {
+    return createLocalRepoReader(await cloneRepository(repo, github.cloneDir, signal));
+  }
+  return createGitHubApiReader(repo, signal);
+}
+
+/**
+ * Reads one repository into ScrapedContent entries. Errors propagate so the
+ * caller can fall back to scraping the repo page.
+ */
+export async function ingestGitHubRepo(url: string, options: GitHubIngestOptions = {}): Promise<ScrapedContent[]> {
+  const repo = parseGitHubRepoUrl(url);
+  if (!repo) {
+    throw new Error(`Not a GitHub repository URL: ${url}`);
+  }
+
+  const fullName = `${repo.owner}/${repo.name}`;
+  const reader = await getRepoReader(repo, options.signal);
+  const files = await reader.listFiles();
+  options.signal?.throwIfAborted();
+
+  const pick = (kind: RepoFileKind, limit: number) =>
+    files.filter(path => classifyPath(path) === kind).sort(byDepthThenName).slice(0, limit);
+
+  const selected = [
+    ...pick('readme', 1),
+    ...pick('docs', MAX_DOC_FILES),
+    ...pick('example', MAX_EXAMPLE_FILES),
+    ...pick('changelog', 1),
+  ];
+
+  const crawledAt = new Date().toISOString();
+  const entry = (repoFile: RepoFile, entryUrl: string, markdown: string): ScrapedContent => ({
+    url: entryUrl,
+    markdown: markdown.slice(0, MAX_FILE_CHARS),
+    success: true,
+    crawledAt,
+    repoFile,
+  });
+
+  const entries = await Promise.all(
+    selected.map(async path => {
+      const kind = classifyPath(path)!;
+      const text = await reader.readFile(path);
+      // Example code is fenced so generation sees it as code, with its path as the title
+      const markdown = kind === 'example' && !path.toLowerCase().endsWith(".md")
+        ? `# ${path}\n\n\`\`\`${languageOf(path)}\n${text}\n\`\`\``
+        : text;
+      return entry({ repo: fullName, path, kind }, `https://github.com/${fullName}/blob/${reader.ref}/${path}`, markdown);
+    })
+  );
+
+  const releases = await reader.listReleases(MAX_RELEASES);
+  if (releases.length > 0) {
+    const notes = releases
+      .map(release => `## ${release.name || release.tag}${release.publishedAt ? ` (${release.publishedAt.slice(0, 10)})` : ""}\n\n${release.body}`)
+      .join("\n\n");
+    entries.push(entry({ repo: fullName, path: "releases", kind: 'releases' }, `https://github.com/${fullName}/releases`, `# ${fullName} releases\n\n${notes}`));
+  }
+
+  const nonEmpty = entries.filter(e => e.markdown.trim().length > 0);
+  console.log(`[GitHub] ${fullName} via ${reader.source}@${reader.ref}: ${nonEmpty.length} entries (${nonEmpty.map(e => e.repoFile!.path).join(", ")})`);
+  return nonEmpty;
+}
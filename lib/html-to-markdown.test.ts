@@ -0,0 +1,65 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { decodeEntities, htmlToMarkdown } from "./html-to-markdown";
+
+const BASE_URL = "https://docs.example.com/guide/intro";
+
+function page(body: string, title = "Intro | Example Docs"): string {
+  return `<!doctype html><html><head><title>${title}</title><script>var x = "<p>no</p>";</script></head><body>${body}</body></html>`;
+}
+
+test("decodeEntities handles named and numeric entities", () => {
+  assert.equal(decodeEntities("a &amp; b &lt;c&gt; &#39;d&#x27; &hellip;"), "a & b <c> 'd' …");
+  assert.equal(decodeEntities("&unknown; &#0;"), "&unknown; &#0;");
+});
+
+test("htmlToMarkdown keeps the main content and drops page chrome", () => {
+  const markdown = htmlToMarkdown(page(`
+    <nav><a href="/">Home</a></nav>
+    <div class="sidebar"><a href="/a">A</a></div>
+    <main>
+      <h1>Getting started</h1>
+      <p>Install the <strong>CLI</strong> and run <code>init</code>.</p>
+    </main>
+    <footer>© Example</footer>
+  `), BASE_URL);
+
+  assert.equal(markdown, "# Getting started\n\nInstall the **CLI** and run `init`.");
+});
+
+test("htmlToMarkdown renders code blocks with their language", () => {
+  const markdown = htmlToMarkdown(page(`
+    <article><h1>Usage</h1><pre class="language-ts"><code>const a = 1;
+if (a &lt; 2) run();</code></pre></article>
+  `), BASE_URL);
+
+  assert.ok(markdown.includes("```ts\nconst a = 1;\nif (a < 2) run();\n```"));
+});
+
+test("htmlToMarkdown resolves links and drops heading permalinks", () => {
+  const markdown = htmlToMarkdown(page(`
+    <main><h2 id="setup">Setup <a href="#setup">#</a></h2>
+    <p>See <a href="../api/client">the client API</a> or <a href="javascript:void(0)">nothing</a>.</p></main>
+  `), BASE_URL);
+
+  assert.ok(markdown.includes("## Setup\n"));
+  assert.ok(markdown.includes("[the client API](https://docs.example.com/api/client)"));
+  assert.ok(markdown.includes("or nothing."));
+});
+
+test("htmlToMarkdown renders lists and tables", () => {
+  const markdown = htmlToMarkdown(page(`
+    <main>
+      <h1>Config</h1>
+      <ul><li>One<li>Two<ul><li>Nested</li></ul></li></ul>
+      <table><tr><th>Option</th><th>Default</th></tr><tr><td>port</td><td>3000</td></tr></table>
+    </main>
+  `), BASE_URL);
+
+  assert.equal(markdown, "# Config\n\n- One\n- Two\n\n    - Nested\n\n| Option | Default |\n| --- | --- |\n| port | 3000 |");
+});
+
+test("htmlToMarkdown uses the page title when the content has no h1", () => {
+  const markdown = htmlToMarkdown(page("<main><p>Some text that is long enough to be content.</p></main>"), BASE_URL);
+  assert.equal(markdown, "# Intro | Example Docs\n\nSome text that is long enough to be content.");
+});
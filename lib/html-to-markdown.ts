@@ -0,0 +1,370 @@
+// HTML → markdown for the native scraper
+// A small tolerant HTML parser, readability-style main content extraction and
+// a markdown renderer. Good enough for server-rendered docs sites; pages that
+// build their content with JavaScript should be routed to Hyperbrowser.
+
+interface ElementNode {
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+  parent?: ElementNode;
+}
+
+type HtmlNode = ElementNode | string;
+
+const VOID_ELEMENTS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "source", "track", "wbr",
+]);
+
+// Content is skipped entirely, up to the closing tag
+const RAW_TEXT_ELEMENTS = new Set(["script", "style", "noscript", "template", "textarea", "svg", "iframe", "canvas"]);
+
+// Page chrome that never holds documentation content
+const NOISE_ELEMENTS = new Set(["nav", "footer", "aside", "form", "button", "select", "input", "dialog", "object"]);
+const NOISE_PATTERN = /(^|[\s_-])(nav|navbar|navigation|menu|sidebar|footer|breadcrumbs?|toc|cookie|consent|banner|advert|ads|social|share|skip-link|edit-?page|feedback|pagination|announcement)([\s_-]|$)/i;
+const CONTENT_PATTERN = /(^|[\s_-])(content|main|article|markdown|prose|docs?-body|documentation)([\s_-]|$)/i;
+
+const BLOCK_ELEMENTS = new Set([
+  "address", "article", "blockquote", "dd", "div", "dl", "dt", "figcaption", "figure", "h1", "h2", "h3",
+  "h4", "h5", "h6", "hr", "li", "main", "ol", "p", "pre", "section", "table", "ul", "details", "summary",
+]);
+
+// Opening one of these closes an open element of the same kind (e.g. <li><li>)
+const SELF_CLOSING_SIBLINGS: Record<string, string[]> = {
+  p: ["p"],
+  li: ["li"],
+  dt: ["dt", "dd"],
+  dd: ["dt", "dd"],
+  tr: ["tr"],
+  td: ["td", "th"],
+  th: ["td", "th"],
+  option: ["option"],
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ", copy: "©", reg: "®", trade: "™",
+  mdash: "—", ndash: "–", hellip: "…", laquo: "«", raquo: "»", lsquo: "‘", rsquo: "’", ldquo: "“", rdquo: "”",
+  bull: "•", middot: "·", times: "×", rarr: "→", larr: "←",
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const point = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) && point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const attrRegex = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+  let match;
+  while ((match = attrRegex.exec(source)) !== null) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+  }
+  return attrs;
+}
+
+export function parseHtml(html: string): ElementNode {
+  const root: ElementNode = { tag: "#root", attrs: {}, children: [] };
+  let current = root;
+  const tagRegex = /<!--[\s\S]*?-->|<![^>]*>|<\/?([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+  let lastIndex = 0;
+  let match;
+
+  const appendText = (text: string) => {
+    if (text) current.children.push(decodeEntities(text));
+  };
+
+  const closeTo = (tag: string) => {
+    for (let node: ElementNode | undefined = current; node && node !== root; node = node.parent) {
+      if (node.tag === tag) {
+        current = node.parent ?? root;
+        return;
+      }
+    }
+  };
+
+  while ((match = tagRegex.exec(html)) !== null) {
+    appendText(html.slice(lastIndex, match.index));
+    lastIndex = tagRegex.lastIndex;
+
+    const [raw, rawTag, rawAttrs = ""] = match;
+    if (!rawTag) continue; // Comment or doctype
+    const tag = rawTag.toLowerCase();
+
+    if (raw.startsWith("</")) {
+      closeTo(tag);
+      continue;
+    }
+
+    if (RAW_TEXT_ELEMENTS.has(tag)) {
+      const closing = html.toLowerCase().indexOf(`</${tag}`, lastIndex);
+      const end = closing === -1 ? html.length : html.indexOf(">", closing) + 1 || html.length;
+      tagRegex.lastIndex = lastIndex = end;
+      continue;
+    }
+
+    const siblings = SELF_CLOSING_SIBLINGS[tag];
+    if (siblings && siblings.includes(current.tag)) {
+      current = current.parent ?? root;
+    }
+
+    const element: ElementNode = { tag, attrs: parseAttributes(rawAttrs), children: [], parent: current };
+    current.children.push(element);
+    if (!VOID_ELEMENTS.has(tag) && !rawAttrs.trim().endsWith("/")) {
+      current = element;
+    }
+  }
+  appendText(html.slice(lastIndex));
+
+  return root;
+}
+
+function isElement(node: HtmlNode): node is ElementNode {
+  return typeof node !== "string";
+}
+
+function findAll(node: ElementNode, predicate: (element: ElementNode) => boolean, found: ElementNode[] = []): ElementNode[] {
+  for (const child of node.children) {
+    if (!isElement(child)) continue;
+    if (predicate(child)) found.push(child);
+    findAll(child, predicate, found);
+  }
+  return found;
+}
+
+function textOf(node: HtmlNode): string {
+  return isElement(node) ? node.children.map(textOf).join("") : node;
+}
+
+function linkTextLength(node: ElementNode): number {
+  return findAll(node, el => el.tag === "a").reduce((sum, a) => sum + textOf(a).trim().length, 0);
+}
+
+function isNoise(element: ElementNode): boolean {
+  if (NOISE_ELEMENTS.has(element.tag)) return true;
+  if (element.attrs.hidden !== undefined || element.attrs["aria-hidden"] === "true") return true;
+  const role = element.attrs.role;
+  if (role === "navigation" || role === "banner" || role === "contentinfo" || role === "search") return true;
+  const label = `${element.attrs.class ?? ""} ${element.attrs.id ?? ""}`;
+  return NOISE_PATTERN.test(label) && !CONTENT_PATTERN.test(label);
+}
+
+// Drops navigation, footers, sidebars and the like; <header> only outside the content
+function removeNoise(node: ElementNode, insideContent = false): void {
+  node.children = node.children.filter(child => {
+    if (!isElement(child)) return true;
+    if (isNoise(child) || (child.tag === "header" && !insideContent)) return false;
+    removeNoise(child, insideContent || child.tag === "main" || child.tag === "article");
+    return true;
+  });
+}
+
+/**
+ * Picks the element holding the page's main content: <main>, <article> or
+ * role="main" when one carries most of the text, otherwise the container
+ * that collects the highest paragraph score (readability's heuristic:
+ * paragraphs score their parent fully and their grandparent by half).
+ */
+export function extractMainContent(document: ElementNode): ElementNode {
+  const body = findAll(document, el => el.tag === "body")[0] ?? document;
+  removeNoise(body);
+
+  const bodyText = textOf(body).trim().length;
+  const semantic = findAll(body, el => el.tag === "main" || el.tag === "article" || el.attrs.role === "main")
+    .map(element => ({ element, length: textOf(element).trim().length }))
+    .sort((a, b) => b.length - a.length)[0];
+  if (semantic && semantic.length >= Math.min(500, bodyText * 0.5)) {
+    return semantic.element;
+  }
+
+  const scores = new Map<ElementNode, number>();
+  for (const paragraph of findAll(body, el => el.tag === "p" || el.tag === "pre" || el.tag === "td")) {
+    const text = textOf(paragraph).trim();
+    if (text.length < 25) continue;
+    const score = 1 + (text.match(/,/g) ?? []).length + Math.min(Math.floor(text.length / 100), 3);
+    const parent = paragraph.parent;
+    if (parent) scores.set(parent, (scores.get(parent) ?? 0) + score);
+    if (parent?.parent) scores.set(parent.parent, (scores.get(parent.parent) ?? 0) + score / 2);
+  }
+
+  let best: ElementNode = body;
+  let bestScore = 0;
+  for (const [element, score] of scores) {
+    const length = textOf(element).length || 1;
+    const adjusted = score * (1 - linkTextLength(element) / length);
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  }
+  return best;
+}
+
+interface RenderContext {
+  baseUrl: string;
+  listDepth: number;
+}
+
+function resolveHref(href: string, baseUrl: string): string | null {
+  if (!href || href.startsWith("#") || /^(javascript|data):/i.test(href)) return null;
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return null;
+  }
+}
+
+function codeLanguage(element: ElementNode): string {
+  const code = element.children.find((child): child is ElementNode => isElement(child) && child.tag === "code");
+  const classes = `${element.attrs.class ?? ""} ${code?.attrs.class ?? ""} ${element.attrs["data-language"] ?? ""}`;
+  return classes.match(/(?:language|lang)-([\w+#-]+)/)?.[1] ?? element.attrs["data-language"] ?? "";
+}
+
+function renderInline(nodes: HtmlNode[], ctx: RenderContext): string {
+  return nodes.map(node => renderNode(node, ctx)).join("");
+}
+
+function renderTable(table: ElementNode, ctx: RenderContext): string {
+  const rows = findAll(table, el => el.tag === "tr").map(row =>
+    row.children
+      .filter((cell): cell is ElementNode => isElement(cell) && (cell.tag === "td" || cell.tag === "th"))
+      .map(cell => renderInline(cell.children, ctx).replace(/\s+/g, " ").replace(/\|/g, "\\|").trim())
+  ).filter(cells => cells.length > 0);
+  if (rows.length === 0) return "";
+
+  const width = Math.max(...rows.map(cells => cells.length));
+  const pad = (cells: string[]) => [...cells, ...Array(width - cells.length).fill("")];
+  const [header, ...body] = rows;
+  return [
+    `| ${pad(header).join(" | ")} |`,
+    `| ${Array(width).fill("---").join(" | ")} |`,
+    ...body.map(cells => `| ${pad(cells).join(" | ")} |`),
+  ].join("\n");
+}
+
+function renderList(list: ElementNode, ctx: RenderContext): string {
+  const ordered = list.tag === "ol";
+  const indent = "  ".repeat(ctx.listDepth);
+  const items = list.children.filter((child): child is ElementNode => isElement(child) && child.tag === "li");
+  return items.map((item, index) => {
+    const marker = ordered ? `${index + 1}.` : "-";
+    const content = renderBlock(item.children, { ...ctx, listDepth: ctx.listDepth + 1 }).trim();
+    return `${indent}${marker} ${content.replace(/\n(?!\s*$)/g, `\n${indent}  `)}`;
+  }).join("\n");
+}
+
+function renderNode(node: HtmlNode, ctx: RenderContext): string {
+  if (!isElement(node)) {
+    return node.replace(/\s+/g, " ");
+  }
+
+  const inner = () => renderInline(node.children, ctx);
+  switch (node.tag) {
+    case "h1": case "h2": case "h3": case "h4": case "h5": case "h6": {
+      const text = inner().replace(/\s+/g, " ").trim();
+      return text ? `\n\n${"#".repeat(Number(node.tag[1]))} ${text}\n\n` : "";
+    }
+    case "p": case "div": case "section": case "article": case "main": case "header":
+    case "figure": case "figcaption": case "details": case "summary": case "dl": case "dt": case "address":
+      return `\n\n${renderBlock(node.children, ctx).trim()}\n\n`;
+    case "dd":
+      return `\n\n  ${renderBlock(node.children, ctx).trim()}\n\n`;
+    case "br":
+      return "  \n";
+    case "hr":
+      return "\n\n---\n\n";
+    case "pre": {
+      const code = textOf(node).replace(/^\n/, "").replace(/\s+$/, "");
+      const fence = code.includes("```") ? "~~~" : "```";
+      return `\n\n${fence}${codeLanguage(node)}\n${code}\n${fence}\n\n`;
+    }
+    case "code": case "kbd": case "samp": {
+      const code = textOf(node).replace(/\s+/g, " ");
+      if (!code.trim()) return "";
+      return code.includes("`") ? `\`\` ${code} \`\`` : `\`${code}\``;
+    }
+    case "strong": case "b": {
+      const text = inner();
+      return text.trim() ? `**${text.trim()}**` : text;
+    }
+    case "em": case "i": {
+      const text = inner();
+      return text.trim() ? `_${text.trim()}_` : text;
+    }
+    case "a": {
+      const text = inner().replace(/\s+/g, " ").trim();
+      // Heading permalinks ("#", "¶") are noise in the markdown
+      if ((node.attrs.href ?? "").startsWith("#") && /^[#¶§🔗]?$/u.test(text)) return "";
+      const href = resolveHref(node.attrs.href ?? "", ctx.baseUrl);
+      return href && text ? `[${text}](${href})` : text;
+    }
+    case "img": {
+      const src = resolveHref(node.attrs.src ?? "", ctx.baseUrl);
+      return src && node.attrs.alt ? `![${node.attrs.alt}](${src})` : "";
+    }
+    case "ul": case "ol":
+      return `\n\n${renderList(node, ctx)}\n\n`;
+    case "blockquote": {
+      const quoted = renderBlock(node.children, ctx).trim().split("\n").map(line => `> ${line}`).join("\n");
+      return `\n\n${quoted}\n\n`;
+    }
+    case "table":
+      return `\n\n${renderTable(node, ctx)}\n\n`;
+    default:
+      return BLOCK_ELEMENTS.has(node.tag) ? `\n\n${renderBlock(node.children, ctx).trim()}\n\n` : inner();
+  }
+}
+
+function renderBlock(nodes: HtmlNode[], ctx: RenderContext): string {
+  return renderInline(nodes, ctx)
+    .replace(/[ \t]+\n/g, (spaces) => (spaces.startsWith("  ") ? "  \n" : "\n"))
+    .replace(/\n{3,}/g, "\n\n");
+}
+
+export interface HtmlPage {
+  markdown: string;
+  canonicalUrl?: string;  // <link rel="canonical">, resolved against the page URL
+}
+
+/**
+ * Converts a full HTML page to markdown of its main content. The page title
+ * becomes the top heading when the content has no h1 of its own.
+ */
+export function htmlToMarkdown(html: string, baseUrl: string): string {
+  return htmlToPage(html, baseUrl).markdown;
+}
+
+// htmlToMarkdown, plus the canonical URL the page declares
+export function htmlToPage(html: string, baseUrl: string): HtmlPage {
+  const document = parseHtml(html);
+  const title = textOf(findAll(document, el => el.tag === "title")[0] ?? "").trim();
+  // Read before extraction, which strips the head
+  const canonicalLink = findAll(document, el =>
+    el.tag === "link" && (el.attrs.rel ?? "").toLowerCase().split(/\s+/).includes("canonical")
+  )[0];
+  const canonicalUrl = resolveHref(canonicalLink?.attrs.href ?? "", baseUrl) ?? undefined;
+  const content = extractMainContent(document);
+
+  // Tidy lines outside code fences: stray single leading spaces left between
+  // blocks, and trailing whitespace other than markdown hard breaks
+  let inFence = false;
+  let markdown = renderBlock(content.children, { baseUrl, listDepth: 0 })
+    .split("\n")
+    .map(line => {
+      if (/^(```|~~~)/.test(line)) inFence = !inFence;
+      if (inFence || !line.trim()) return line.trim() ? line : "";
+      return line.replace(/^ (?=\S)/, "").replace(/\s+$/, (trailing) => (trailing === "  " ? trailing : ""));
+    })
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  if (title && !/^# /m.test(markdown)) {
+    markdown = `# ${title}\n\n${markdown}`;
+  }
+  return { markdown, canonicalUrl: canonicalUrl && /^https?:/.test(canonicalUrl) ? canonicalUrl : undefined };
+}
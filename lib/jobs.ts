@@ -0,0 +1,245 @@
+// In-process job store for durable generations
+// A job outlives the HTTP request that created it: progress is recorded as an
+// ordered event log that clients can replay (Last-Event-ID) or poll.
+
+import crypto from "crypto";
+import { runGeneration } from "./pipeline";
+import { BudgetExceededError } from "./budget";
+import { AnalysisData, GenerateRequest, GenerationEvent, JobSnapshot, JobStatus } from "@/types";
+
+// Finished jobs are kept around this long so clients can still fetch results
+const JOB_TTL_MS = 60 * 60 * 1000; // 1 hour
+const MAX_JOBS = 200;
+// Review mode gives up on a job whose outline is not approved within this time
+const REVIEW_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes
+
+export interface JobEvent {
+  id: number;
+  event: GenerationEvent;
+}
+
+type JobListener = (event: JobEvent) => void;
+
+interface Job {
+  snapshot: JobSnapshot;
+  events: JobEvent[];
+  listeners: Set<JobListener>;
+  abortController: AbortController;
+  finishedAt?: number;
+  approveAnalysis?: (analysis: AnalysisData) => void;  // Set while awaiting review
+}
+
+// Stored on globalThis so every route bundle (and dev hot reloads) share one store
+const globalStore = globalThis as typeof globalThis & { __skillJobs?: Map<string, Job> };
+const jobs: Map<string, Job> = globalStore.__skillJobs ?? (globalStore.__skillJobs = new Map());
+
+export function isTerminalStatus(status: JobStatus): boolean {
+  return status === 'completed' || status === 'failed' || status === 'cancelled';
+}
+
+// Drop expired finished jobs, then the oldest finished ones if still over capacity
+function cleanJobs(): void {
+  const now = Date.now();
+  for (const [id, job] of jobs.entries()) {
+    if (job.finishedAt && now - job.finishedAt > JOB_TTL_MS) {
+      jobs.delete(id);
+    }
+  }
+
+  if (jobs.size >= MAX_JOBS) {
+    const finished = Array.from(jobs.entries())
+      .filter(([, job]) => job.finishedAt)
+      .sort(([, a], [, b]) => (a.finishedAt ?? 0) - (b.finishedAt ?? 0));
+    const toRemove = finished.slice(0, jobs.size - MAX_JOBS + 1);
+    toRemove.forEach(([id]) => jobs.delete(id));
+    if (toRemove.length > 0) {
+      console.warn(`[Jobs] Store limit reached, removed ${toRemove.length} oldest finished jobs`);
+    }
+  }
+}
+
+function appendEvent(job: Job, generationEvent: GenerationEvent): void {
+  const event: JobEvent = { id: job.events.length + 1, event: generationEvent };
+  job.events.push(event);
+  job.snapshot.lastEventId = event.id;
+  if (generationEvent.type === 'progress') {
+    job.snapshot.progress = generationEvent;
+  }
+  job.snapshot.updatedAt = new Date().toISOString();
+
+  for (const listener of job.listeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error(`[Jobs] Listener failed for job ${job.snapshot.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Pauses the job until the analysis is approved through submitAnalysis().
+ * Rejects when the job is cancelled or nobody answers within REVIEW_TIMEOUT_MS.
+ */
+function requestReview(job: Job, analysis: AnalysisData): Promise<AnalysisData> {
+  const { signal } = job.abortController;
+
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", onAbort);
+      job.approveAnalysis = undefined;
+      job.snapshot.pendingAnalysis = undefined;
+      job.snapshot.status = 'running';
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error(`Outline was not approved within ${REVIEW_TIMEOUT_MS / 60000} minutes`));
+    }, REVIEW_TIMEOUT_MS);
+
+    signal.addEventListener("abort", onAbort, { once: true });
+    job.approveAnalysis = approved => {
+      cleanup();
+      resolve(approved);
+    };
+
+    job.snapshot.status = 'awaiting-review';
+    job.snapshot.pendingAnalysis = analysis;
+    console.log(`[Jobs] ${job.snapshot.id} awaiting outline review`);
+    appendEvent(job, { type: 'analysis-ready', analysis });
+  });
+}
+
+function finishJob(job: Job, status: JobStatus): void {
+  job.snapshot.status = status;
+  job.finishedAt = Date.now();
+  console.log(`[Jobs] ${job.snapshot.id} finished: ${status}`);
+}
+
+/**
+ * Creates a job and starts the generation pipeline in the background.
+ * The returned snapshot is immediately usable for polling or event replay.
+ */
+export function createJob(request: GenerateRequest): JobSnapshot {
+  cleanJobs();
+
+  const now = new Date().toISOString();
+  const job: Job = {
+    snapshot: {
+      id: crypto.randomUUID(),
+      status: 'running',
+      request,
+      createdAt: now,
+      updatedAt: now,
+      lastEventId: 0,
+    },
+    events: [],
+    listeners: new Set(),
+    abortController: new AbortController(),
+  };
+  jobs.set(job.snapshot.id, job);
+
+  console.log(`[Jobs] Created ${job.snapshot.id} (${jobs.size} in store)`);
+
+  runGeneration(request, {
+    signal: job.abortController.signal,
+    onEvent: event => appendEvent(job, event),
+    reviewAnalysis: analysis => requestReview(job, analysis),
+  })
+    .then(result => {
+      job.snapshot.result = result;
+      job.snapshot.progress = { type: 'progress', phase: 'complete', message: `Generation complete! (${result.metadata.duration})`, progress: 100 };
+      finishJob(job, 'completed');
+      appendEvent(job, {
+        type: 'complete',
+        message: job.snapshot.progress.message,
+        content: result.content,
+        metadata: result.metadata,
+      });
+    })
+    .catch(error => {
+      if (job.abortController.signal.aborted) {
+        job.snapshot.error = 'Generation cancelled';
+        finishJob(job, 'cancelled');
+      } else {
+        console.error(`[Jobs] ${job.snapshot.id} failed:`, error);
+        job.snapshot.error = error instanceof Error ? error.message : "An unknown error occurred";
+        finishJob(job, 'failed');
+      }
+      appendEvent(job, {
+        type: 'error',
+        message: job.snapshot.error,
+        code: job.snapshot.status === 'cancelled'
+          ? 'cancelled'
+          : error instanceof BudgetExceededError ? error.code : undefined,
+      });
+    })
+    .finally(() => {
+      job.listeners.clear();
+    });
+
+  return job.snapshot;
+}
+
+export function getJob(id: string): JobSnapshot | null {
+  return jobs.get(id)?.snapshot ?? null;
+}
+
+/**
+ * Cancels a running job. Returns false if the job does not exist;
+ * cancelling an already finished job is a no-op.
+ */
+export function cancelJob(id: string): boolean {
+  const job = jobs.get(id);
+  if (!job) return false;
+
+  if (!isTerminalStatus(job.snapshot.status)) {
+    console.log(`[Jobs] Cancelling ${id}`);
+    job.abortController.abort();
+  }
+  return true;
+}
+
+/**
+ * Resumes a job paused for outline review with the approved analysis.
+ */
+export function submitAnalysis(
+  id: string,
+  analysis: AnalysisData
+): 'submitted' | 'not-found' | 'not-awaiting-review' {
+  const job = jobs.get(id);
+  if (!job) return 'not-found';
+  if (!job.approveAnalysis) return 'not-awaiting-review';
+
+  console.log(`[Jobs] ${id} outline approved, resuming generation`);
+  job.approveAnalysis(analysis);
+  return 'submitted';
+}
+
+/**
+ * Replays every event after `afterEventId`, then forwards live events until the
+ * job finishes. Returns an unsubscribe function, or null if the job is unknown.
+ */
+export function subscribeToJob(
+  id: string,
+  afterEventId: number,
+  listener: JobListener
+): (() => void) | null {
+  const job = jobs.get(id);
+  if (!job) return null;
+
+  // Replay and subscribe synchronously so no event can slip in between
+  job.events.filter(event => event.id > afterEventId).forEach(listener);
+
+  if (isTerminalStatus(job.snapshot.status)) {
+    return () => {};
+  }
+
+  job.listeners.add(listener);
+  return () => {
+    job.listeners.delete(listener);
+  };
+}
@@ -0,0 +1,71 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseLlmsTxt, splitLlmsFull } from "./llms-txt";
+
+const LLMS_TXT = `# Acme Widgets
+
+> Composable UI widgets with a tiny runtime.
+
+Some free-form notes.
+
+## Docs
+
+- [Quickstart](/docs/quickstart.md): Install and mount a widget
+- [API reference](https://acme.dev/docs/api.md)
+
+## Optional
+
+- [Changelog](changelog.md)
+
+## Examples
+
+* [Counter](examples/counter.md)
+- not a link
+`;
+
+const body = (topic: string) => `${topic} explained in enough words to count as a section. `.repeat(6);
+
+test("parseLlmsTxt reads the title, summary and links", () => {
+  const parsed = parseLlmsTxt(LLMS_TXT, "https://acme.dev/llms.txt");
+  assert.equal(parsed.title, "Acme Widgets");
+  assert.equal(parsed.summary, "Composable UI widgets with a tiny runtime.");
+  assert.deepEqual(parsed.links.map(link => [link.title, link.url, link.section]), [
+    ["Quickstart", "https://acme.dev/docs/quickstart.md", "Docs"],
+    ["API reference", "https://acme.dev/docs/api.md", "Docs"],
+    ["Counter", "https://acme.dev/examples/counter.md", "Examples"],
+    ["Changelog", "https://acme.dev/changelog.md", "Optional"],
+  ]);
+});
+
+test("parseLlmsTxt flags Optional links and lists them last", () => {
+  const { links } = parseLlmsTxt(LLMS_TXT, "https://acme.dev/llms.txt");
+  assert.deepEqual(links.map(link => link.optional), [false, false, false, true]);
+});
+
+test("splitLlmsFull splits on top-level headings outside code fences", () => {
+  const markdown = [
+    "# Installation", body("Installation"), "```sh", "# not a heading", "```",
+    "# Widgets", body("Widgets"),
+    "# Tiny", "Too short.",
+  ].join("\n");
+  const sections = splitLlmsFull(markdown, "https://acme.dev/llms-full.txt", "acme");
+
+  assert.deepEqual(sections.map(section => section.url), [
+    "https://acme.dev/llms-full.txt#installation",
+    "https://acme.dev/llms-full.txt#widgets",
+  ]);
+  assert.ok(sections[0].markdown.includes("# not a heading"));
+  assert.equal(sections[1].llmsFullSection, "Widgets");
+  assert.ok(sections.every(section => section.success));
+});
+
+test("splitLlmsFull puts sections about the topic first and keeps slugs unique", () => {
+  const markdown = [
+    "## Setup", body("Setup"),
+    "## Theming widgets", body("Theming"),
+    "## Setup", body("Setup again"),
+  ].join("\n");
+  const sections = splitLlmsFull(markdown, "https://acme.dev/llms-full.txt", "widgets theming");
+
+  assert.deepEqual(sections.map(section => section.url.split("#")[1]), ["theming-widgets", "setup", "setup-3"]);
+});
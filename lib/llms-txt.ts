@@ -0,0 +1,178 @@
+// llms.txt / llms-full.txt discovery (https://llmstxt.org)
+// Docs sites increasingly publish a curated, LLM-friendly index at /llms.txt
+// and sometimes the whole documentation as one markdown file at
+// /llms-full.txt. The crawler probes each seed origin for both: index links
+// become its first crawl targets, and the full file is ingested directly.
+
+import { ScrapedContent } from "@/types";
+import { politeFetch } from "./politeness";
+
+const PROBE_TIMEOUT = 10000;
+// llms-full.txt can run to megabytes; only the head of it is read
+const MAX_FULL_LENGTH = 2 * 1024 * 1024;
+const MAX_FULL_SECTIONS = 10;
+const MIN_SECTION_LENGTH = 200;
+
+export interface LlmsTxtLink {
+  url: string;
+  title: string;
+  section: string;      // H2 heading the link is listed under
+  optional: boolean;    // Listed under "## Optional": secondary material
+}
+
+export interface LlmsTxt {
+  url: string;
+  title?: string;
+  summary?: string;     // The blockquote under the title
+  links: LlmsTxtLink[];
+}
+
+export interface LlmsTxtDiscovery {
+  origin: string;
+  index: LlmsTxt | null;
+  fullSections: ScrapedContent[];   // Empty when the site has no llms-full.txt
+}
+
+/**
+ * Parses an llms.txt file: "# Title", an optional "> summary", then H2
+ * sections of "- [name](url): notes" links. Links in the "Optional" section
+ * are kept but flagged, and listed last.
+ */
+export function parseLlmsTxt(text: string, url: string): LlmsTxt {
+  const links: LlmsTxtLink[] = [];
+  let title: string | undefined;
+  let summary: string | undefined;
+  let section = "";
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!title && line.startsWith("# ")) {
+      title = line.slice(2).trim();
+    } else if (!summary && !section && line.startsWith(">")) {
+      summary = line.replace(/^>\s*/, "");
+    } else if (line.startsWith("## ")) {
+      section = line.slice(3).trim();
+    } else {
+      const match = line.match(/^[-*]\s*\[([^\]]+)\]\(([^)\s]+)\)/);
+      if (!match) continue;
+      try {
+        links.push({
+          url: new URL(match[2], url).toString(),
+          title: match[1].trim(),
+          section,
+          optional: section.toLowerCase() === "optional",
+        });
+      } catch {
+        // Unresolvable link; skip it
+      }
+    }
+  }
+
+  links.sort((a, b) => Number(a.optional) - Number(b.optional));
+  return { url, title, summary, links };
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 60);
+}
+
+// Top-level headings outside code fences; "#" when the file has several, else "##"
+function splitSections(markdown: string): { title: string; body: string }[] {
+  const lines = markdown.split("\n");
+  const headingLevel = (prefix: string) => {
+    let inFence = false;
+    const starts: number[] = [];
+    lines.forEach((line, index) => {
+      if (line.trimStart().startsWith("```")) inFence = !inFence;
+      else if (!inFence && line.startsWith(prefix)) starts.push(index);
+    });
+    return starts;
+  };
+
+  let starts = headingLevel("# ");
+  if (starts.length < 2) starts = headingLevel("## ");
+  if (starts.length === 0) return [{ title: "", body: markdown }];
+
+  return starts.map((start, i) => ({
+    title: lines[start].replace(/^#+\s*/, "").trim(),
+    body: lines.slice(start, starts[i + 1] ?? lines.length).join("\n").trim(),
+  }));
+}
+
+/**
+ * Splits llms-full.txt into one source per section. Sections whose title
+ * mentions the topic come first; the rest keep file order.
+ */
+export function splitLlmsFull(markdown: string, url: string, topic: string): ScrapedContent[] {
+  const crawledAt = new Date().toISOString();
+  const topicTokens = topic.toLowerCase().split(/\W+/).filter(token => token.length > 2);
+  const usedSlugs = new Set<string>();
+
+  return splitSections(markdown)
+    .filter(section => section.body.length >= MIN_SECTION_LENGTH)
+    .map((section, position) => ({
+      section,
+      position,
+      relevance: topicTokens.filter(token => section.title.toLowerCase().includes(token)).length,
+    }))
+    .sort((a, b) => b.relevance - a.relevance || a.position - b.position)
+    .slice(0, MAX_FULL_SECTIONS)
+    .map(({ section, position }) => {
+      // Fragment URLs keep sections apart where sources are matched by raw URL
+      // (ranking, selection). urlKey() drops fragments, so sections must never
+      // be deduped by it; the crawler adds them to results without keying them
+      let slug = slugify(section.title) || `section-${position + 1}`;
+      if (usedSlugs.has(slug)) slug = `${slug}-${position + 1}`;
+      usedSlugs.add(slug);
+
+      return {
+        url: `${url}#${slug}`,
+        markdown: section.body,
+        success: true,
+        crawledAt,
+        llmsFullSection: section.title,
+      };
+    });
+}
+
+// Plain-text GET that refuses HTML: many sites answer unknown paths with their SPA shell
+async function fetchTextFile(url: string, signal?: AbortSignal): Promise<string | null> {
+  try {
+    const response = await politeFetch(url, { accept: "text/markdown, text/plain;q=0.9", timeout: PROBE_TIMEOUT, signal });
+    if (!response?.ok) return null;
+
+    const contentType = response.headers.get("content-type") ?? "";
+    if (/html/.test(contentType)) return null;
+
+    const text = (await response.text()).slice(0, MAX_FULL_LENGTH);
+    return text.trimStart().startsWith("<") ? null : text;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    return null;
+  }
+}
+
+/**
+ * Probes an origin for /llms.txt and /llms-full.txt. Missing files, HTML
+ * answers and network errors all count as "not published".
+ */
+export async function discoverLlmsTxt(
+  origin: string,
+  topic: string,
+  signal?: AbortSignal
+): Promise<LlmsTxtDiscovery> {
+  const indexUrl = `${origin}/llms.txt`;
+  const fullUrl = `${origin}/llms-full.txt`;
+  const [indexText, fullText] = await Promise.all([
+    fetchTextFile(indexUrl, signal),
+    fetchTextFile(fullUrl, signal),
+  ]);
+
+  const index = indexText ? parseLlmsTxt(indexText, indexUrl) : null;
+  const fullSections = fullText ? splitLlmsFull(fullText, fullUrl, topic) : [];
+
+  if (index || fullSections.length > 0) {
+    console.log(`[llms.txt] ${origin}: ${index ? `${index.links.length} index links` : "no index"}, ${fullSections.length} llms-full.txt sections`);
+  }
+  return { origin, index, fullSections };
+}
@@ -0,0 +1,39 @@
+import type { Scraper, ScraperOutput } from "./scraper";
+import { htmlToPage } from "./html-to-markdown";
+import { getUserAgent } from "./politeness";
+
+// Plain fetch + HTML-to-markdown; free and self-hosted, but sees only server-rendered HTML
+export const nativeScraper: Scraper = {
+  name: "native",
+  billable: false,
+
+  async scrape(url: string, signal?: AbortSignal): Promise<ScraperOutput> {
+    const response = await fetch(url, {
+      headers: {
+        "User-Agent": getUserAgent(),
+        Accept: "text/html,application/xhtml+xml,text/markdown;q=0.9,text/plain;q=0.8",
+      },
+      redirect: "follow",
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`);
+    }
+
+    const contentType = response.headers.get("content-type") ?? "";
+    const body = await response.text();
+    // Where a redirect ended up; the page's rel=canonical takes precedence
+    const finalUrl = response.url && response.url !== url ? response.url : undefined;
+
+    // Raw markdown and text (e.g. README files) need no conversion
+    if (/text\/(markdown|plain)/.test(contentType)) {
+      return { markdown: body.trim(), canonicalUrl: finalUrl };
+    }
+    if (contentType && !/html|xml/.test(contentType)) {
+      throw new Error(`Unsupported content type: ${contentType}`);
+    }
+    const page = htmlToPage(body, response.url || url);
+    return { markdown: page.markdown, canonicalUrl: page.canonicalUrl ?? finalUrl };
+  },
+};
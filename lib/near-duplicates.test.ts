@@ -0,0 +1,37 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { dropNearDuplicates, hammingDistance, simhash } from "./near-duplicates";
+
+const WORDS = "alpha bravo charlie delta echo foxtrot golf hotel india juliet kilo lima mike november oscar papa quebec romeo sierra tango".split(" ");
+
+// Deterministic text of `count` words, varied enough that shingles differ
+function text(count: number, seed = 0): string {
+  return Array.from({ length: count }, (_, i) => WORDS[(i * 7 + seed + Math.floor(i / 3)) % WORDS.length]).join(" ");
+}
+
+test("simhash ignores pages too short to compare", () => {
+  assert.equal(simhash(text(49)), null);
+  assert.notEqual(simhash(text(50)), null);
+});
+
+test("hammingDistance counts differing bits across both halves", () => {
+  assert.equal(hammingDistance([0, 0], [0, 0]), 0);
+  assert.equal(hammingDistance([0b1011, 0], [0, 0x80000000]), 4);
+});
+
+test("link targets and markdown syntax do not change the hash", () => {
+  const page = `# Guide\n\n${text(300)}`;
+  const mirrored = page.replace("alpha", "[alpha](https://mirror.example.com/docs)");
+  assert.deepEqual(simhash(mirrored), simhash(page));
+});
+
+test("dropNearDuplicates keeps the first of each near-duplicate group", () => {
+  const original = { url: "a", markdown: text(400) };
+  const banner = { url: "b", markdown: `${original.markdown} version banner` };
+  const different = { url: "c", markdown: text(400, 5) };
+  const short = { url: "d", markdown: "too short" };
+
+  const { kept, duplicates } = dropNearDuplicates([original, banner, different, short, short], page => page.markdown);
+  assert.deepEqual(kept.map(page => page.url), ["a", "c", "d", "d"]);
+  assert.deepEqual(duplicates.map(({ item, duplicateOf }) => [item.url, duplicateOf.url]), [["b", "a"]]);
+});
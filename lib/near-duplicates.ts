@@ -0,0 +1,83 @@
+// Near-duplicate content detection (simhash)
+// Mirrors, versioned copies and syndicated pages share most of their text but
+// differ in navigation, link targets or a version banner, so exact comparison
+// misses them. Each page gets a 64-bit simhash over 3-word shingles; pages
+// whose hashes differ in only a few bits are near-duplicates.
+
+import crypto from "crypto";
+
+const SHINGLE_SIZE = 3;
+// Shorter pages are too generic to compare (and never flagged)
+const MIN_TOKENS = 50;
+// Bits two fingerprints may differ in and still count as the same page
+const MAX_DISTANCE = 3;
+
+// Words of the page text; link targets and markdown syntax are dropped
+function tokenize(markdown: string): string[] {
+  return markdown
+    .replace(/\]\([^)]*\)/g, "]")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * 64-bit simhash of the page text, or null when it is too short to compare.
+ * Returned as two 32-bit halves to keep the bit arithmetic in plain numbers.
+ */
+export function simhash(markdown: string): [number, number] | null {
+  const tokens = tokenize(markdown);
+  if (tokens.length < MIN_TOKENS) {
+    return null;
+  }
+
+  const weights = new Array<number>(64).fill(0);
+  for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+    const digest = crypto.createHash("md5").update(tokens.slice(i, i + SHINGLE_SIZE).join(" ")).digest();
+    const halves = [digest.readUInt32BE(0), digest.readUInt32BE(4)];
+    for (let bit = 0; bit < 64; bit++) {
+      weights[bit] += (halves[bit >> 5] >>> (bit & 31)) & 1 ? 1 : -1;
+    }
+  }
+
+  const hash: [number, number] = [0, 0];
+  weights.forEach((weight, bit) => {
+    if (weight > 0) hash[bit >> 5] = (hash[bit >> 5] | (1 << (bit & 31))) >>> 0;
+  });
+  return hash;
+}
+
+function popcount(value: number): number {
+  let count = 0;
+  for (let v = value >>> 0; v; v &= v - 1) count++;
+  return count;
+}
+
+export function hammingDistance(a: [number, number], b: [number, number]): number {
+  return popcount(a[0] ^ b[0]) + popcount(a[1] ^ b[1]);
+}
+
+/**
+ * Keeps the first of each group of near-duplicate items (so callers pass them
+ * best first) and returns the dropped ones with the item they duplicate.
+ */
+export function dropNearDuplicates<T>(
+  items: T[],
+  textOf: (item: T) => string
+): { kept: T[]; duplicates: { item: T; duplicateOf: T }[] } {
+  const kept: T[] = [];
+  const fingerprints: { item: T; hash: [number, number] }[] = [];
+  const duplicates: { item: T; duplicateOf: T }[] = [];
+
+  for (const item of items) {
+    const hash = simhash(textOf(item));
+    const match = hash && fingerprints.find(fingerprint => hammingDistance(fingerprint.hash, hash) <= MAX_DISTANCE);
+    if (match) {
+      duplicates.push({ item, duplicateOf: match.item });
+      continue;
+    }
+    kept.push(item);
+    if (hash) fingerprints.push({ item, hash });
+  }
+  return { kept, duplicates };
+}
@@ -0,0 +1,172 @@
+// Official documentation site detection
+// Scores candidate origins from search results, package registry homepages and
+// links between crawled pages, and picks the authoritative docs site for a topic.
+
+import { OfficialDocs, ScrapedContent, SearchResult } from "@/types";
+import { matchesDomain } from "./domains";
+import { extractLinks } from "./crawler";
+
+// Aggregators, Q&A sites, blogs and registries are never the official docs
+const NON_OFFICIAL_DOMAINS = [
+  "medium.com",
+  "dev.to",
+  "hashnode.dev",
+  "substack.com",
+  "stackoverflow.com",
+  "stackexchange.com",
+  "github.com",
+  "gitlab.com",
+  "npmjs.com",
+  "pypi.org",
+  "crates.io",
+  "wikipedia.org",
+  "freecodecamp.org",
+  "geeksforgeeks.org",
+  "w3schools.com",
+  "tutorialspoint.com",
+  "baeldung.com",
+];
+
+const DOCS_HOST_PATTERN = /^(docs|doc|developer|developers|dev|api|reference|learn)\./;
+const DOCS_PATH_PATTERN = /^\/(docs|documentation|reference|guide|guides|api)(\/|$)/;
+
+// Below this score no origin is trusted enough to pin
+const MIN_OFFICIAL_SCORE = 6;
+// Link votes per origin are capped so one site's footer can't decide it
+const MAX_LINK_VOTES = 5;
+
+export interface OfficialDocsInput {
+  searchResults?: SearchResult[];
+  homepages?: string[];         // Package registry homepage / documentation fields
+  pages?: ScrapedContent[];     // Crawled pages; their outbound links count as votes
+}
+
+interface Candidate {
+  origin: string;
+  score: number;
+  signals: string[];
+  rootUrl?: string;
+}
+
+function originOf(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === "http:" || parsed.protocol === "https:" ? parsed.origin : null;
+  } catch {
+    return null;
+  }
+}
+
+// Distinctive words of the topic, e.g. "supabase" from "Supabase auth"
+function topicTokens(topic: string): string[] {
+  return topic
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length >= 3);
+}
+
+export function isOfficialUrl(url: string, docs: OfficialDocs | null | undefined): boolean {
+  return Boolean(docs) && originOf(url) === docs!.origin;
+}
+
+/**
+ * Picks the most likely official docs origin, or null when no candidate has
+ * enough evidence. The evidence is kept in `signals` so the choice can be
+ * explained in metadata and plan output.
+ */
+export function detectOfficialDocs(topic: string, input: OfficialDocsInput): OfficialDocs | null {
+  const candidates = new Map<string, Candidate>();
+  const tokens = topicTokens(topic);
+
+  const candidateFor = (url: string): Candidate | null => {
+    const origin = originOf(url);
+    if (!origin || NON_OFFICIAL_DOMAINS.some(domain => matchesDomain(url, domain))) {
+      return null;
+    }
+    let candidate = candidates.get(origin);
+    if (!candidate) {
+      candidate = { origin, score: 0, signals: [] };
+      const host = new URL(origin).hostname.replace(/^www\./, "");
+      if (tokens.some(token => host.includes(token))) {
+        candidate.score += 3;
+        candidate.signals.push("host name matches topic");
+      }
+      if (DOCS_HOST_PATTERN.test(host)) {
+        candidate.score += 2;
+        candidate.signals.push("documentation host name");
+      }
+      candidates.set(origin, candidate);
+    }
+    return candidate;
+  };
+
+  // Search: hits from the docs and API queries, and top general results
+  (input.searchResults ?? []).forEach((result, position) => {
+    const candidate = candidateFor(result.link);
+    if (!candidate) return;
+    candidate.rootUrl ??= result.link;
+
+    const queries = result.queries ?? ['general'];
+    if (queries.includes('docs')) {
+      candidate.score += 3;
+      candidate.signals.push(`docs search hit: ${result.link}`);
+    }
+    if (queries.includes('api')) {
+      candidate.score += 2;
+      candidate.signals.push(`API search hit: ${result.link}`);
+    }
+    if (queries.includes('general') && position < 3) {
+      candidate.score += 2;
+      candidate.signals.push(`top search result: ${result.link}`);
+    }
+    if (DOCS_PATH_PATTERN.test(new URL(result.link).pathname)) {
+      candidate.score += 1;
+    }
+  });
+
+  // Registry metadata is maintained by the project itself, so it weighs most
+  for (const homepage of input.homepages ?? []) {
+    const candidate = candidateFor(homepage);
+    if (!candidate) continue;
+    candidate.rootUrl ??= homepage;
+    candidate.score += 6;
+    candidate.signals.push(`package registry homepage: ${homepage}`);
+  }
+
+  // Link votes: other crawled sites pointing at the same origin
+  const votes = new Map<string, number>();
+  for (const page of input.pages ?? []) {
+    if (!page.success) continue;
+    const pageOrigin = originOf(page.url);
+    const linkedOrigins = new Set(
+      extractLinks(page.markdown, page.url)
+        .map(originOf)
+        .filter((origin): origin is string => origin !== null && origin !== pageOrigin)
+    );
+    linkedOrigins.forEach(origin => votes.set(origin, (votes.get(origin) ?? 0) + 1));
+  }
+  for (const [origin, count] of votes) {
+    if (count < 2) continue;
+    const candidate = candidateFor(origin);
+    if (!candidate) continue;
+    candidate.score += Math.min(count, MAX_LINK_VOTES);
+    candidate.signals.push(`linked from ${count} crawled pages`);
+  }
+
+  const best = Array.from(candidates.values())
+    .filter(candidate => candidate.signals.length > 0)
+    .sort((a, b) => b.score - a.score)[0];
+
+  if (!best || best.score < MIN_OFFICIAL_SCORE) {
+    console.log(`[OfficialDocs] No official docs origin found${best ? ` (best: ${best.origin}, score ${best.score})` : ""}`);
+    return null;
+  }
+
+  console.log(`[OfficialDocs] ${best.origin} (score ${best.score}): ${best.signals.join("; ")}`);
+  return {
+    origin: best.origin,
+    rootUrl: best.rootUrl ?? `${best.origin}/`,
+    score: best.score,
+    signals: best.signals,
+  };
+}
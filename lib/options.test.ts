@@ -0,0 +1,46 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { GENERATION_OPTION_LIMITS, validateGenerationOptions } from "./options";
+
+test("validateGenerationOptions accepts missing and in-range options", () => {
+  assert.equal(validateGenerationOptions(undefined), null);
+  assert.equal(validateGenerationOptions({}), null);
+  assert.equal(
+    validateGenerationOptions({
+      maxSources: 5,
+      crawlDepth: 0,
+      targetLines: { min: 200, max: 400 },
+      model: 'sonnet',
+      skipCache: true,
+    }),
+    null
+  );
+});
+
+test("validateGenerationOptions rejects non-objects", () => {
+  assert.equal(validateGenerationOptions(null), "options must be an object");
+  assert.equal(validateGenerationOptions([1]), "options must be an object");
+  assert.equal(validateGenerationOptions("fast"), "options must be an object");
+});
+
+test("validateGenerationOptions rejects out-of-range values instead of clamping", () => {
+  const { max } = GENERATION_OPTION_LIMITS.maxSources;
+  assert.equal(
+    validateGenerationOptions({ maxSources: max + 1 }),
+    `options.maxSources must be between 2 and ${max} (got ${max + 1})`
+  );
+  assert.equal(validateGenerationOptions({ maxCrawlPages: 2.5 }), "options.maxCrawlPages must be an integer");
+  assert.equal(validateGenerationOptions({ crawlDepth: "1" }), "options.crawlDepth must be an integer");
+});
+
+test("validateGenerationOptions checks the targetLines range", () => {
+  assert.equal(validateGenerationOptions({ targetLines: 300 }), "options.targetLines must be an object with min and max");
+  assert.equal(validateGenerationOptions({ targetLines: { min: 200 } }), "options.targetLines requires min <= max");
+  assert.equal(validateGenerationOptions({ targetLines: { min: 500, max: 300 } }), "options.targetLines requires min <= max");
+  assert.match(validateGenerationOptions({ targetLines: { min: 50, max: 300 } }) ?? "", /targetLines\.min must be between/);
+});
+
+test("validateGenerationOptions checks model and skipCache", () => {
+  assert.equal(validateGenerationOptions({ model: 'gpt' }), "options.model must be one of: opus, sonnet");
+  assert.equal(validateGenerationOptions({ skipCache: "yes" }), "options.skipCache must be a boolean");
+});
@@ -0,0 +1,146 @@
+// Validation for per-request generation options
+// Shared by the API routes (server-side validation) and the Advanced panel (input bounds).
+
+import { GenerationModel } from "@/types";
+
+interface NumericLimit {
+  min: number;
+  max: number;
+}
+
+// Upper bounds keep a single request from running an unbounded crawl or generation.
+// Defaults stay with the code that uses them (pipeline, crawler, anthropic).
+export const GENERATION_OPTION_LIMITS = {
+  maxSources: { min: 2, max: 20 },
+  maxContentLength: { min: 500, max: 8000 },
+  maxPagesPerUrl: { min: 0, max: 20 },
+  maxCrawlPages: { min: 1, max: 60 },
+  maxPagesPerOrigin: { min: 1, max: 40 },
+  crawlDepth: { min: 0, max: 3 },
+  targetLines: { min: 100, max: 1500 },
+  budgetTokens: { min: 1000, max: 10_000_000 },
+  budgetScrapes: { min: 1, max: 500 },
+  budgetDollars: { min: 0.01, max: 100 },
+  domainWeight: { min: -100, max: 100 },
+} satisfies Record<string, NumericLimit>;
+
+export const GENERATION_MODELS: GenerationModel[] = ['opus', 'sonnet'];
+
+function checkInteger(name: string, value: unknown, limit: NumericLimit): string | null {
+  if (value === undefined) return null;
+  if (typeof value !== 'number' || !Number.isInteger(value)) {
+    return `options.${name} must be an integer`;
+  }
+  return checkNumber(name, value, limit);
+}
+
+// Bare host names like "docs.example.com" (no scheme, path or port)
+const DOMAIN_PATTERN = /^(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)+$/i;
+
+function checkDomainList(name: string, value: unknown): string | null {
+  if (value === undefined) return null;
+  if (!Array.isArray(value)) {
+    return `options.${name} must be an array of domains`;
+  }
+  const invalid = value.find(domain => typeof domain !== 'string' || !DOMAIN_PATTERN.test(domain.trim()));
+  return invalid === undefined ? null : `options.${name} contains an invalid domain: ${JSON.stringify(invalid)}`;
+}
+
+function checkNumber(name: string, value: unknown, limit: NumericLimit): string | null {
+  if (value === undefined) return null;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return `options.${name} must be a number`;
+  }
+  if (value < limit.min || value > limit.max) {
+    return `options.${name} must be between ${limit.min} and ${limit.max} (got ${value})`;
+  }
+  return null;
+}
+
+/**
+ * Returns a user-facing error for invalid options, or null if valid.
+ * Out-of-range values are rejected rather than clamped so callers notice.
+ */
+export function validateGenerationOptions(options: unknown): string | null {
+  if (options === undefined) return null;
+  if (!options || typeof options !== 'object' || Array.isArray(options)) {
+    return "options must be an object";
+  }
+
+  const opts = options as Record<string, unknown>;
+  const limits = GENERATION_OPTION_LIMITS;
+
+  const numericError =
+    checkInteger('maxSources', opts.maxSources, limits.maxSources) ??
+    checkInteger('maxContentLength', opts.maxContentLength, limits.maxContentLength) ??
+    checkInteger('maxPagesPerUrl', opts.maxPagesPerUrl, limits.maxPagesPerUrl) ??
+    checkInteger('maxCrawlPages', opts.maxCrawlPages, limits.maxCrawlPages) ??
+    checkInteger('maxPagesPerOrigin', opts.maxPagesPerOrigin, limits.maxPagesPerOrigin) ??
+    checkInteger('crawlDepth', opts.crawlDepth, limits.crawlDepth);
+  if (numericError) return numericError;
+
+  if (opts.targetLines !== undefined) {
+    const target = opts.targetLines as Record<string, unknown> | null;
+    if (!target || typeof target !== 'object') {
+      return "options.targetLines must be an object with min and max";
+    }
+    const rangeError =
+      checkInteger('targetLines.min', target.min, limits.targetLines) ??
+      checkInteger('targetLines.max', target.max, limits.targetLines);
+    if (rangeError) return rangeError;
+    if (typeof target.min !== 'number' || typeof target.max !== 'number' || target.min > target.max) {
+      return "options.targetLines requires min <= max";
+    }
+  }
+
+  if (opts.model !== undefined && !GENERATION_MODELS.includes(opts.model as GenerationModel)) {
+    return `options.model must be one of: ${GENERATION_MODELS.join(', ')}`;
+  }
+
+  if (opts.skipCache !== undefined && typeof opts.skipCache !== 'boolean') {
+    return "options.skipCache must be a boolean";
+  }
+
+  if (opts.reviewOutline !== undefined && typeof opts.reviewOutline !== 'boolean') {
+    return "options.reviewOutline must be a boolean";
+  }
+
+  if (opts.budget !== undefined) {
+    const budget = opts.budget as Record<string, unknown> | null;
+    if (!budget || typeof budget !== 'object' || Array.isArray(budget)) {
+      return "options.budget must be an object";
+    }
+    const budgetError =
+      checkInteger('budget.maxTokens', budget.maxTokens, limits.budgetTokens) ??
+      checkInteger('budget.maxScrapes', budget.maxScrapes, limits.budgetScrapes) ??
+      checkNumber('budget.maxDollars', budget.maxDollars, limits.budgetDollars);
+    if (budgetError) return budgetError;
+  }
+
+  if (opts.domains !== undefined) {
+    const domains = opts.domains as Record<string, unknown> | null;
+    if (!domains || typeof domains !== 'object' || Array.isArray(domains)) {
+      return "options.domains must be an object";
+    }
+    const listError =
+      checkDomainList('domains.blocked', domains.blocked) ??
+      checkDomainList('domains.preferred', domains.preferred);
+    if (listError) return listError;
+
+    if (domains.weights !== undefined) {
+      const weights = domains.weights as Record<string, unknown> | null;
+      if (!weights || typeof weights !== 'object' || Array.isArray(weights)) {
+        return "options.domains.weights must be an object mapping domains to numbers";
+      }
+      for (const [domain, weight] of Object.entries(weights)) {
+        if (!DOMAIN_PATTERN.test(domain)) {
+          return `options.domains.weights contains an invalid domain: ${JSON.stringify(domain)}`;
+        }
+        const weightError = checkNumber(`domains.weights["${domain}"]`, weight, limits.domainWeight);
+        if (weightError) return weightError;
+      }
+    }
+  }
+
+  return null;
+}
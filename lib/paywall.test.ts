@@ -0,0 +1,57 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describePaywall, detectPaywall } from "./paywall";
+
+// Read by the first getConfig() call, which happens inside the tests
+const configPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "paywall-test-")), "skills.config.json");
+fs.writeFileSync(configPath, JSON.stringify({
+  paywall: { threshold: 50, never: ["docs.example.com"], always: ["news.example.com"] },
+}));
+process.env.SKILLS_CONFIG_PATH = configPath;
+
+const ARTICLE = "Configure the client with an API key, then call connect(). ".repeat(30);
+const LOGIN_WALL = "Subscription required. Sign in to continue reading. Sign in or create an account.";
+
+test("detectPaywall passes long documentation pages", () => {
+  const verdict = detectPaywall(ARTICLE, "https://blog.example.org/post");
+  assert.equal(verdict.score, 0);
+  assert.equal(verdict.isPaywalled, false);
+  assert.deepEqual(verdict.signals, []);
+});
+
+test("detectPaywall flags short login walls and explains why", () => {
+  const verdict = detectPaywall(LOGIN_WALL, "https://blog.example.org/post");
+  assert.equal(verdict.isPaywalled, true);
+  assert.deepEqual(verdict.signals.map(signal => [signal.kind, signal.points]), [
+    ['length', 40],
+    ['keyword', 30],
+    ['keyword', 15],
+    ['keyword', 10],
+  ]);
+  assert.equal(verdict.score, 95);
+  assert.equal(
+    describePaywall(verdict),
+    `score 95/50: ${LOGIN_WALL.length} chars (under 300) +40, "subscription required" ×1 +30, "create an account" ×1 +15, "sign in" ×2 +10`
+  );
+});
+
+test("detectPaywall caps repeated keywords", () => {
+  const verdict = detectPaywall(`${ARTICLE} ${"premium ".repeat(5)}`, "https://blog.example.org/post");
+  assert.deepEqual(verdict.signals, [{ kind: 'keyword', detail: '"premium" ×5', points: 30 }]);
+  assert.equal(verdict.isPaywalled, false);
+});
+
+test("domain overrides decide the verdict but keep the signals", () => {
+  const never = detectPaywall(LOGIN_WALL, "https://docs.example.com/login");
+  assert.equal(never.isPaywalled, false);
+  assert.equal(never.override, 'never');
+  assert.ok(never.signals.length > 0);
+  assert.equal(describePaywall(never), "domain listed in paywall.never");
+
+  const always = detectPaywall(ARTICLE, "https://news.example.com/story");
+  assert.equal(always.isPaywalled, true);
+  assert.equal(always.override, 'always');
+});
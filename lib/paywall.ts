@@ -0,0 +1,120 @@
+// Paywall / login-wall detection for scraped pages, shared by every scraper backend
+
+import { PaywallSignal, PaywallVerdict } from "@/types";
+import { getConfig } from "./config";
+import { matchesDomain } from "./domains";
+
+// Configuration constants (the threshold lives in config: "paywall.threshold")
+const MIN_CONTENT_LENGTH = 300; // Reduced from 500
+export const SUBSTANTIAL_CONTENT_LENGTH = 1000; // For fallback
+
+// Keywords categorized by confidence level
+const PAYWALL_KEYWORDS = {
+  high: [
+    "subscription required",
+    "access denied",
+    "authentication required",
+    "paywall"
+  ],
+  medium: [
+    "premium",
+    "sign up to read",
+    "create an account",
+    "subscribe to continue"
+  ],
+  low: [
+    "sign in",
+    "signin",
+    "login",
+    "please log in",
+    "subscribe"
+  ]
+};
+
+function countOccurrences(text: string, keyword: string): number {
+  return (text.match(new RegExp(keyword.toLowerCase(), 'g')) || []).length;
+}
+
+// Points per keyword tier; counts are capped so one repeated phrase cannot dominate
+const KEYWORD_POINTS = { high: 30, medium: 15 };
+const MAX_COUNTED_OCCURRENCES = 2;
+
+/**
+ * Scores how likely a page is paywalled (0-100) and records every signal that
+ * contributed, so a flagged page can be explained. Domain overrides from
+ * config ("paywall.never" / "paywall.always") decide the verdict outright but
+ * the signals are still reported.
+ */
+export function detectPaywall(content: string, url: string): PaywallVerdict {
+  const { paywall } = getConfig();
+  const lowerContent = content.toLowerCase();
+  const contentLength = content.length;
+  const signals: PaywallSignal[] = [];
+
+  // Factor 1: Content length penalties
+  if (contentLength < MIN_CONTENT_LENGTH) {
+    signals.push({ kind: 'length', detail: `${contentLength} chars (under ${MIN_CONTENT_LENGTH})`, points: 40 });
+  } else if (contentLength < SUBSTANTIAL_CONTENT_LENGTH) {
+    signals.push({ kind: 'length', detail: `${contentLength} chars (under ${SUBSTANTIAL_CONTENT_LENGTH})`, points: 15 });
+  }
+
+  // Factor 2: Keyword matching with frequency analysis
+  // High and medium confidence keywords always count
+  for (const tier of ['high', 'medium'] as const) {
+    for (const keyword of PAYWALL_KEYWORDS[tier]) {
+      const occurrences = countOccurrences(lowerContent, keyword);
+      if (occurrences > 0) {
+        signals.push({
+          kind: 'keyword',
+          detail: `"${keyword}" ×${occurrences}`,
+          points: KEYWORD_POINTS[tier] * Math.min(occurrences, MAX_COUNTED_OCCURRENCES),
+        });
+      }
+    }
+  }
+
+  // Low confidence keywords - require multiple occurrences
+  for (const keyword of PAYWALL_KEYWORDS.low) {
+    const occurrences = countOccurrences(lowerContent, keyword);
+    if (occurrences >= 2) {
+      signals.push({ kind: 'keyword', detail: `"${keyword}" ×${occurrences}`, points: 10 });
+    }
+  }
+
+  // Factor 3: Keyword density (if content is substantial)
+  if (contentLength > 200) {
+    const allKeywords = [
+      ...PAYWALL_KEYWORDS.high,
+      ...PAYWALL_KEYWORDS.medium,
+      ...PAYWALL_KEYWORDS.low
+    ];
+    const totalKeywordMatches = allKeywords.reduce((count, keyword) => count + countOccurrences(lowerContent, keyword), 0);
+
+    const density = (totalKeywordMatches / contentLength) * 100;
+    if (density > 2) {
+      signals.push({ kind: 'density', detail: `${density.toFixed(1)} keywords per 100 chars`, points: 20 });
+    }
+  }
+
+  const score = Math.min(signals.reduce((sum, signal) => sum + signal.points, 0), 100); // Cap at 100
+  const override = paywall.always.some(domain => matchesDomain(url, domain))
+    ? 'always'
+    : paywall.never.some(domain => matchesDomain(url, domain)) ? 'never' : undefined;
+
+  return {
+    score,
+    threshold: paywall.threshold,
+    isPaywalled: override ? override === 'always' : score >= paywall.threshold,
+    signals,
+    override,
+  };
+}
+
+// One-line explanation for warnings: "score 70/50: 180 chars (under 300) +40, "sign in" ×3 +10"
+export function describePaywall(verdict: PaywallVerdict): string {
+  if (verdict.override) {
+    return `domain listed in paywall.${verdict.override}`;
+  }
+  const reasons = verdict.signals.map(signal => `${signal.detail} +${signal.points}`).join(", ");
+  return `score ${verdict.score}/${verdict.threshold}${reasons ? `: ${reasons}` : ""}`;
+}
@@ -0,0 +1,922 @@
+import { buildSearchQueries, searchExpanded } from "./search";
+import { recursiveCrawl } from "./crawler";
+import { summarizeFailures } from "./scraper";
+import { describePaywall } from "./paywall";
+import { classifyTopic } from "./classifier";
+import { AnalysisReviewer, generateSkill } from "./anthropic";
+import { getCachedContent, cacheContent } from "./cache";
+import { validateUrls } from "./url-validator";
+import { urlKey } from "./canonical-url";
+import { dropNearDuplicates } from "./near-duplicates";
+import { detectRequestedVersion, matchesDocVersion, selectDocVersion } from "./doc-versions";
+import { validateGenerationOptions } from "./options";
+import { CostLedger, createCostLedger, formatCost } from "./cost";
+import { getConfig } from "./config";
+import { ResolvedDomainRules, domainWeight, isBlocked, isPreferred, resolveDomainRules } from "./domains";
+import { detectOfficialDocs, isOfficialUrl } from "./official-docs";
+import { ingestGitHubRepo, parseGitHubRepoUrl } from "./github";
+import { packageToSource, resolvePackages } from "./registry";
+import { Budget, createBudget, mergeLimits } from "./budget";
+import {
+  AppliedDomainRules,
+  DocVersionSelection,
+  GenerateRequest,
+  GenerationEvent,
+  GenerationMetadata,
+  GenerationPhase,
+  GenerationPlan,
+  GenerationResult,
+  OfficialDocs,
+  PackageInfo,
+  ScrapedContent,
+  SearchQueryKind,
+  SearchResult,
+  TopicClassification,
+  ValidationMetadata,
+  ValidationResult,
+} from "@/types";
+
+// Maximum sources to use for generation (top quality ones)
+const MAX_SOURCES = 10;
+// Content length limit per source (reduces API token usage)
+const MAX_CONTENT_LENGTH = 2000;
+// Seed URLs accepted per request
+const MAX_SEED_URLS = 10;
+// Paywalled sources explained individually in warnings
+const MAX_PAYWALL_REASONS = 5;
+// Fewest sources a generation runs with
+const MIN_SOURCES = 2;
+
+export interface PipelineOptions {
+  signal?: AbortSignal;   // Stops every stage (search, crawl, classification, generation)
+  onEvent?: (event: GenerationEvent) => void;  // Everything except complete/error, which callers send
+  reviewAnalysis?: AnalysisReviewer;  // Required for options.reviewOutline (provided by the job runner)
+}
+
+/**
+ * Returns a user-facing error for an unusable request body, or null if valid.
+ * Routes call this up front to reject bad input before any work starts.
+ */
+export function validateGenerateRequest(body: GenerateRequest): string | null {
+  if (!body || typeof body !== 'object') {
+    return "Request body must be a JSON object";
+  }
+  if (body.topic !== undefined && typeof body.topic !== 'string') {
+    return "topic must be a string";
+  }
+  if (body.url !== undefined && typeof body.url !== 'string') {
+    return "url must be a string";
+  }
+  if (body.urls !== undefined) {
+    if (!Array.isArray(body.urls) || body.urls.some(url => typeof url !== 'string')) {
+      return "urls must be an array of strings";
+    }
+    if (body.urls.length > MAX_SEED_URLS) {
+      return `At most ${MAX_SEED_URLS} seed URLs are allowed`;
+    }
+  }
+  const invalidUrl = getSeedUrls(body).find(url => !/^https?:\/\/\S+$/.test(url));
+  if (invalidUrl) {
+    return `Invalid seed URL: ${invalidUrl}`;
+  }
+  if (!body.topic && getSeedUrls(body).length === 0) {
+    return "Either topic, url or urls is required";
+  }
+  return validateGenerationOptions(body.options);
+}
+
+// `url` and `urls` merged, trimmed and de-duplicated, in request order
+function getSeedUrls(body: GenerateRequest): string[] {
+  const seeds = [body.url, ...(body.urls ?? [])]
+    .map(url => url?.trim())
+    .filter((url): url is string => Boolean(url));
+  return Array.from(new Set(seeds));
+}
+
+interface RankedSource {
+  source: ScrapedContent;
+  score: number;
+  isSeed: boolean;
+  isPreferred: boolean;
+  isOfficial: boolean;
+}
+
+// Bonus for pages surfaced by the targeted queries, plus a little for each
+// additional query that agreed on the same URL
+const QUERY_BONUS: Record<SearchQueryKind, number> = {
+  general: 0,
+  docs: 10,
+  api: 10,
+  errors: 5,
+  changelog: 5,
+  github: 5,
+};
+const MULTI_QUERY_BONUS = 5;
+// Pages on the detected official docs site outrank blogs and aggregators
+const OFFICIAL_DOCS_BONUS = 25;
+// llms-full.txt sections are curated for LLMs by the site itself
+const LLMS_FULL_BONUS = 15;
+// Kept although they document another version than the targeted one
+const VERSION_MISMATCH_PENALTY = 30;
+
+// Score and rank sources by quality; seed URLs always rank first, then sources
+// on preferred domains, then everything else by score (including trust weights)
+function rankSources(
+  sources: ScrapedContent[],
+  seedUrls: Set<string>,
+  domains: ResolvedDomainRules,
+  officialDocs: OfficialDocs | null
+): RankedSource[] {
+  return sources
+    .map(source => {
+      let score = 0;
+
+      const length = source.markdown.length;
+      if (length > 1000) score += 30;
+      else if (length > 500) score += 20;
+      else if (length > 200) score += 10;
+
+      const codeBlocks = (source.markdown.match(/```/g) || []).length / 2;
+      score += codeBlocks * 5;
+
+      if (source.markdown.includes('## ')) score += 10;
+      if (source.markdown.includes('### ')) score += 5;
+
+      const apiKeywords = ['api', 'endpoint', 'method', 'parameter', 'request', 'response'];
+      const hasApiContent = apiKeywords.some(kw => source.markdown.toLowerCase().includes(kw));
+      if (hasApiContent) score += 15;
+
+      const officialDomains = ['docs.', 'developer.', 'api.', 'reference.'];
+      if (officialDomains.some(d => source.url.includes(d))) score += 10;
+
+      const queries = source.queries ?? [];
+      score += queries.reduce((sum, kind) => sum + QUERY_BONUS[kind], 0);
+      score += Math.max(0, queries.length - 1) * MULTI_QUERY_BONUS;
+
+      score += domainWeight(source.url, domains);
+
+      const isOfficial = isOfficialUrl(source.url, officialDocs);
+      if (isOfficial) score += OFFICIAL_DOCS_BONUS;
+      if (source.llmsFullSection !== undefined) score += LLMS_FULL_BONUS;
+      if (source.versionMismatch) score -= VERSION_MISMATCH_PENALTY;
+
+      return {
+        source,
+        score,
+        isSeed: seedUrls.has(source.url),
+        isPreferred: isPreferred(source.url, domains),
+        isOfficial,
+      };
+    })
+    .sort((a, b) =>
+      Number(b.isSeed) - Number(a.isSeed) ||
+      Number(b.isPreferred) - Number(a.isPreferred) ||
+      b.score - a.score
+    );
+}
+
+// Top-ranked sources, keeping one slot for the best error-query hit so the
+// Troubleshooting section has material even when it ranks lower
+function selectSources(rankedSources: RankedSource[], maxSources: number): ScrapedContent[] {
+  const selected = rankedSources.slice(0, maxSources);
+  const hasErrorsSource = selected.some(({ source }) => source.queries?.includes('errors'));
+  const bestErrorsSource = rankedSources
+    .slice(maxSources)
+    .find(({ source }) => source.queries?.includes('errors'));
+
+  if (!hasErrorsSource && bestErrorsSource && selected.length === maxSources && maxSources > 1) {
+    // Replace the lowest-ranked pick that is neither a seed nor preferred
+    const replaceIndex = selected.map(r => r.isSeed || r.isPreferred).lastIndexOf(false);
+    if (replaceIndex !== -1) {
+      selected[replaceIndex] = bestErrorsSource;
+    }
+  }
+  return selected.map(({ source }) => source);
+}
+
+function trimContent(sources: ScrapedContent[], maxLength: number): ScrapedContent[] {
+  return sources.map(source => ({
+    ...source,
+    markdown: source.markdown.slice(0, maxLength)
+  }));
+}
+
+// Per-request state shared by every stage of a generation or plan
+interface PipelineRun {
+  signal?: AbortSignal;
+  onEvent?: (event: GenerationEvent) => void;
+  ledger: CostLedger;
+  budget: Budget;
+  warnings: string[];
+  startTime: number;
+  sendProgress: (phase: GenerationPhase, message: string, progress: number) => void;
+  addWarning: (message: string) => void;
+}
+
+// Everything known once sources are selected and the topic is classified
+interface PreparedSources {
+  searchTopic: string;
+  seeds: string[];
+  searchResults: SearchResult[];
+  validationResults: ValidationResult[];
+  validationMetadata?: ValidationMetadata;
+  urls: string[];
+  scrapedContent: ScrapedContent[];
+  usedCache: boolean;
+  rankedSources: RankedSource[];
+  maxSources: number;
+  selectedSources: ScrapedContent[];
+  selectedChars: number;
+  paywalledPages: ScrapedContent[];  // Dropped as paywalled, with the detector's verdict
+  classification: TopicClassification;
+  domains: AppliedDomainRules;
+  officialDocs: OfficialDocs | null;
+  packages: PackageInfo[];
+  docVersion: DocVersionSelection | null;
+}
+
+/**
+ * Sets up the ledger, budget and event helpers for one request and runs
+ * `stage` with them. When `signal` aborts, logs the partial cost of the work
+ * done so far and rethrows; spend always counts towards the deployment budget.
+ */
+async function withPipelineRun<T>(
+  body: GenerateRequest,
+  options: PipelineOptions,
+  stage: (run: PipelineRun) => Promise<T>
+): Promise<T> {
+  const { signal } = options;
+  const startTime = Date.now();
+
+  // Every billable call made for this request; reported in metadata, or logged if cancelled
+  const config = getConfig();
+  const ledger = createCostLedger(config.rates);
+  const budget = createBudget(
+    ledger,
+    config.rates,
+    mergeLimits(config.budgets.perRequest, body?.options?.budget),
+    config.budgets.perDeployment
+  );
+  const spent = {
+    phase: "starting",
+    lastMessage: "",
+  };
+
+  const warnings: string[] = [];
+  const run: PipelineRun = {
+    signal,
+    onEvent: options.onEvent,
+    ledger,
+    budget,
+    warnings,
+    startTime,
+    sendProgress: (phase, message, progress) => {
+      spent.phase = phase;
+      spent.lastMessage = message;
+      options.onEvent?.({ type: 'progress', phase, message, progress });
+    },
+    addWarning: message => {
+      warnings.push(message);
+      options.onEvent?.({ type: 'warning', message });
+    },
+  };
+
+  const logCancellation = () => {
+    const duration = ((Date.now() - startTime) / 1000).toFixed(1);
+    console.log(`[API] CANCELLED during "${spent.phase}" after ${duration}s (last step: ${spent.lastMessage})`);
+    const cost = ledger.getBreakdown();
+    console.log(`[API] Partial cost: ${formatCost(cost.totalCost)} (${cost.searches.count} search call(s), ${cost.scrapes.count} scrape(s), ${cost.inputTokens + cost.outputTokens} tokens)`);
+    console.log(`========== REQUEST CANCELLED ==========\n`);
+  };
+
+  try {
+    return await stage(run);
+  } catch (error) {
+    if (signal?.aborted) {
+      logCancellation();
+    }
+    throw error;
+  } finally {
+    // Failed and cancelled requests still spent money
+    budget.commit();
+  }
+}
+
+/**
+ * Reads GitHub repository URLs through the repo adapter instead of the web
+ * scraper (one ingestion per repo). URLs whose ingestion fails are returned
+ * in `fallbackUrls` so they can still be scraped as pages.
+ */
+async function ingestRepositories(
+  urls: string[],
+  run: PipelineRun
+): Promise<{ content: ScrapedContent[]; fallbackUrls: string[] }> {
+  const byRepo = new Map<string, string>();
+  for (const url of urls) {
+    const repo = parseGitHubRepoUrl(url);
+    if (repo && !byRepo.has(`${repo.owner}/${repo.name}`.toLowerCase())) {
+      byRepo.set(`${repo.owner}/${repo.name}`.toLowerCase(), url);
+    }
+  }
+
+  const repoUrls = Array.from(byRepo.values());
+  const settled = await Promise.allSettled(repoUrls.map(url => ingestGitHubRepo(url, { signal: run.signal })));
+  run.signal?.throwIfAborted();
+
+  const content: ScrapedContent[] = [];
+  const fallbackUrls: string[] = [];
+  settled.forEach((outcome, index) => {
+    if (outcome.status === 'fulfilled' && outcome.value.length > 0) {
+      content.push(...outcome.value);
+      return;
+    }
+    const reason = outcome.status === 'rejected'
+      ? (outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason))
+      : "no README, docs or examples found";
+    run.addWarning(`GitHub ingestion failed for ${repoUrls[index]} (${reason}); scraping the page instead`);
+    fallbackUrls.push(repoUrls[index]);
+  });
+  return { content, fallbackUrls };
+}
+
+// Search → validate → crawl → rank → select → classify
+async function prepareSources(body: GenerateRequest, run: PipelineRun): Promise<PreparedSources> {
+  const { signal, onEvent, ledger, budget, sendProgress, addWarning } = run;
+
+  // Validated before anything reads the body's fields
+  const invalidReason = validateGenerateRequest(body);
+  if (invalidReason) {
+    throw new Error(invalidReason);
+  }
+
+  const { topic, options: generationOptions = {} } = body;
+  const seeds = getSeedUrls(body);
+  console.log(`\n========== NEW REQUEST ==========`);
+  console.log(`[API] Request: topic="${topic}", seeds=${seeds.length > 0 ? seeds.join(', ') : 'none'}`);
+  if (Object.keys(generationOptions).length > 0) {
+    console.log(`[API] Options:`, generationOptions);
+  }
+
+  const searchTopic = topic || seeds[0] || "";
+  // Seeds change what gets crawled, so they are part of the cache key
+  // (canonicalized, so spelling variants of a seed share the cache)
+  const cacheKey = seeds.length > 0 ? [searchTopic, ...seeds.map(urlKey).sort()].join(' ') : searchTopic;
+  let urls: string[] = [];
+  let scrapedContent: ScrapedContent[] = [];
+  let usedCache = false;
+  let validationMetadata: ValidationMetadata | undefined;
+  let validationResults: ValidationResult[] = [];
+  const seedUrls = new Set(seeds);
+
+  // Deployment domain rules with this request's overrides applied
+  const domainRules = resolveDomainRules(generationOptions.domains);
+  const blockedUrls = new Set<string>();
+  // Pages the crawler dropped as paywalled; fallback pages stay in scrapedContent
+  const paywalledPages: ScrapedContent[] = [];
+  // Skipped by validation or the crawler because robots.txt disallows them
+  const robotsDisallowedUrls = new Set<string>();
+
+  // OPTIMIZATION: Run cache check and web search in PARALLEL
+  sendProgress("searching", "Checking cache & searching...", 5);
+
+  // Only search if we have a topic (not just URLs); seeds are merged with the results
+  const shouldSearch = Boolean(topic);
+
+  // The topic fans out into several targeted queries (docs, API, errors, ...)
+  const searchQueries = shouldSearch ? buildSearchQueries(searchTopic) : [];
+  if (shouldSearch) {
+    budget.require("Search", { searches: searchQueries.length });
+  }
+
+  if (generationOptions.skipCache) {
+    console.log(`[API] Cache read skipped (skipCache)`);
+  }
+
+  const [cached, searchResults] = await Promise.all([
+    generationOptions.skipCache ? Promise.resolve(null) : getCachedContent(cacheKey),
+    shouldSearch
+      ? searchExpanded(searchQueries, { signal, ledger, domains: domainRules, onBlocked: url => blockedUrls.add(url) })
+      : Promise.resolve([]),
+  ]);
+
+  // First guess at the official docs site, from search alone; pinned as the primary crawl root
+  let officialDocs = searchResults.length > 0 ? detectOfficialDocs(searchTopic, { searchResults }) : null;
+
+  // Check if cache is valid
+  if (cached) {
+    const successfulCached = cached.content.filter(c => c.success);
+    const totalCachedChars = successfulCached.reduce((sum, c) => sum + c.markdown.length, 0);
+
+    if (successfulCached.length >= 2 && totalCachedChars >= 2000) {
+      console.log(`[API] Cache HIT: ${successfulCached.length} sources, ${totalCachedChars} chars`);
+      scrapedContent = cached.content;
+      urls = cached.urls;
+      usedCache = true;
+      successfulCached.forEach(c => onEvent?.({ type: 'source-discovered', url: c.url, origin: 'cache' }));
+      sendProgress("searching", `Found ${successfulCached.length} cached sources`, 10);
+    } else {
+      console.log(`[API] Cache insufficient (${successfulCached.length} sources, ${totalCachedChars} chars)`);
+    }
+  }
+
+  if (!usedCache) {
+    console.log(`[API] Cache MISS - using seed URLs and search results`);
+
+    // Seeds go first so the crawler scrapes them in its initial batch
+    urls = [...seeds];
+    if (seeds.length > 0) {
+      console.log(`[API] Using ${seeds.length} seed URL(s)`);
+      seeds.forEach(seed => onEvent?.({ type: 'source-discovered', url: seed, origin: 'seed' }));
+    }
+
+    // The official docs root comes straight after the seeds
+    const pinnedRoot = officialDocs && !seeds.includes(officialDocs.rootUrl) ? officialDocs.rootUrl : null;
+    if (pinnedRoot) {
+      urls.push(pinnedRoot);
+    }
+
+    const newSearchResults = searchResults.filter(result => !seeds.includes(result.link));
+    if (newSearchResults.length > 0) {
+      urls.push(...newSearchResults.map((result) => result.link).filter(link => link !== pinnedRoot));
+      console.log(`[API] Search found ${newSearchResults.length} additional URLs`);
+      newSearchResults.forEach(result =>
+        onEvent?.({ type: 'source-discovered', url: result.link, title: result.title, origin: 'search', queries: result.queries })
+      );
+    }
+
+    if (urls.length === 0) {
+      throw new Error("No URLs found to scrape");
+    }
+
+    // Pre-crawl validation
+    sendProgress("validating", `Checking ${urls.length} URLs...`, 12);
+    validationResults = await validateUrls(urls, { signal });
+    const validUrls = validationResults
+      .filter(r => r.valid)
+      .map(r => r.finalUrl || r.url);
+    // Follow seed redirects so ranking still recognises them
+    validationResults
+      .filter(r => r.valid && r.finalUrl && seedUrls.has(r.url))
+      .forEach(r => seedUrls.add(r.finalUrl!));
+    validationResults.filter(r => r.robotsDisallowed).forEach(r => robotsDisallowedUrls.add(r.url));
+    const brokenUrls = validationResults.filter(r => !r.valid && !r.robotsDisallowed);
+    const redirectedUrls = validationResults.filter(r => r.finalUrl && r.finalUrl !== r.url);
+    const timeoutUrls = validationResults.filter(r => r.error?.includes('aborted') || r.error?.includes('timeout'));
+
+    console.log(`[Validator] ${validUrls.length} valid, ${brokenUrls.length} broken`);
+
+    if (brokenUrls.length > 0) {
+      console.log(`[Validator] Broken:`, brokenUrls.map(b => `${b.url} (${b.status || 'FAIL'})`));
+    }
+
+    // Store validation metadata
+    validationMetadata = {
+      totalChecked: validationResults.length,
+      validUrls: validUrls.length,
+      brokenUrls: brokenUrls.length,
+      redirectedUrls: redirectedUrls.length,
+      timeoutUrls: timeoutUrls.length,
+      robotsDisallowedUrls: robotsDisallowedUrls.size,
+    };
+
+    urls = validUrls;
+
+    // Pin the official root under its post-redirect URL, if it survived validation
+    const rootValidation = officialDocs && validationResults.find(r => r.url === officialDocs!.rootUrl && r.valid);
+    const primaryRoot = rootValidation ? rootValidation.finalUrl || rootValidation.url : undefined;
+    if (primaryRoot) {
+      console.log(`[API] Pinned official docs root: ${primaryRoot}`);
+    }
+
+    if (brokenUrls.length > 0) {
+      addWarning(`${brokenUrls.length} broken URLs excluded (404/403/500)`);
+    }
+    validationResults
+      .filter(r => !r.valid && seeds.includes(r.url))
+      .forEach(r => addWarning(`Seed URL excluded: ${r.url} (${r.status || r.error || 'unreachable'})`));
+    if (timeoutUrls.length > 0) {
+      addWarning(`${timeoutUrls.length} URLs timed out (network too slow or unreachable)`);
+    }
+    if (redirectedUrls.length > 0) {
+      addWarning(`${redirectedUrls.length} URLs redirected to different locations`);
+    }
+
+    if (urls.length === 0) {
+      // Provide detailed error information
+      const failedUrls = validationResults.filter(r => !r.valid);
+      const errorSummary = failedUrls
+        .slice(0, 3) // Show first 3 to avoid overwhelming
+        .map(b => `${b.url} (${b.status || (b.robotsDisallowed ? 'ROBOTS' : 'TIMEOUT')}: ${b.error})`)
+        .join(', ');
+
+      const additionalCount = failedUrls.length > 3 ? ` and ${failedUrls.length - 3} more` : '';
+
+      throw new Error(
+        `All ${validationResults.length} URLs failed validation. ` +
+        `Errors: ${errorSummary}${additionalCount}. ` +
+        `Please check if the URLs are accessible or try different search terms.`
+      );
+    }
+
+    sendProgress("crawling", `Crawling ${validUrls.length} validated sources...`, 15);
+    console.log(`[API] Starting recursive crawl from ${urls.length} URLs`);
+
+    // GitHub repos are read through the repo adapter; everything else is crawled
+    const repoUrls = urls.filter(url => parseGitHubRepoUrl(url));
+    const repoIngestion = repoUrls.length > 0
+      ? await ingestRepositories(repoUrls, run)
+      : { content: [], fallbackUrls: [] };
+    const webUrls = urls.filter(url => !repoUrls.includes(url) || repoIngestion.fallbackUrls.includes(url));
+    if (repoIngestion.content.length > 0) {
+      console.log(`[API] Ingested ${repoIngestion.content.length} files from ${repoUrls.length - repoIngestion.fallbackUrls.length} GitHub repo(s)`);
+    }
+
+    let crawledContent: ScrapedContent[] = [];
+    const failedScrapes: ScrapedContent[] = [];
+    if (webUrls.length > 0) {
+      budget.require("Crawl", { scrapes: 1 });
+
+      // Skip Phase 1 validation since we just validated
+      crawledContent = await recursiveCrawl(webUrls, searchTopic, true, {
+        signal,
+        ledger,
+        budget,
+        maxPagesPerUrl: generationOptions.maxPagesPerUrl,
+        maxTotalUrls: generationOptions.maxCrawlPages,
+        maxPagesPerOrigin: generationOptions.maxPagesPerOrigin,
+        depth: generationOptions.crawlDepth,
+        // A few spare pages beyond what generation uses, for ranking to choose from
+        targetPages: (generationOptions.maxSources ?? MAX_SOURCES) + 5,
+        primaryRoot,
+        targetVersion: detectRequestedVersion(searchTopic) ?? undefined,
+        onScrapeFailed: result => failedScrapes.push(result),
+        onPaywalled: result => paywalledPages.push(result),
+        onRobotsDisallowed: url => robotsDisallowedUrls.add(url),
+      });
+    }
+
+    if (robotsDisallowedUrls.size > 0) {
+      addWarning(`${robotsDisallowedUrls.size} URL(s) skipped: disallowed by robots.txt`);
+    }
+
+    if (failedScrapes.length > 0) {
+      addWarning(`${failedScrapes.length} pages failed to scrape (${summarizeFailures(failedScrapes)})`);
+    }
+
+    // Repo files carry the provenance of the repo URL that led to them
+    const repoQueries = new Map<string, SearchResult['queries']>();
+    searchResults.forEach(result => {
+      const repo = parseGitHubRepoUrl(result.link);
+      if (repo) repoQueries.set(`${repo.owner}/${repo.name}`, result.queries);
+    });
+    const ingestedContent = repoIngestion.content.map(c =>
+      c.repoFile && repoQueries.has(c.repoFile.repo) ? { ...c, queries: repoQueries.get(c.repoFile.repo) } : c
+    );
+    ingestedContent.forEach(c => onEvent?.({ type: 'source-discovered', url: c.url, title: c.repoFile?.path, origin: 'github' }));
+    scrapedContent = [...ingestedContent, ...crawledContent];
+
+    if (budget.remainingScrapes() === 0) {
+      addWarning(`Scrape budget reached after ${ledger.getBreakdown().scrapes.count} scrapes; crawl stopped early`);
+    }
+
+    // Carry search provenance onto the scraped pages (and into the cache)
+    const queriesByUrl = new Map(searchResults.map(result => [result.link, result.queries]));
+    scrapedContent = scrapedContent.map(c => (queriesByUrl.has(c.url) ? { ...c, queries: queriesByUrl.get(c.url) } : c));
+
+    const crawlRoots = new Set(urls);
+    scrapedContent
+      .filter(c => c.success && !c.repoFile && !crawlRoots.has(c.url))
+      .forEach(c => onEvent?.({
+        type: 'source-discovered',
+        url: c.url,
+        title: c.llmsFullSection || undefined,
+        origin: c.llmsFullSection !== undefined ? 'llms-txt' : 'crawl',
+      }));
+
+    // Paywalled pages only succeed as scraper fallbacks
+    const successfulScrapes = scrapedContent.filter(c => c.success);
+    const totalChars = successfulScrapes.reduce((sum, c) => sum + c.markdown.length, 0);
+
+    console.log(`[API] Crawl results: ${successfulScrapes.length} success | ${totalChars} chars`);
+
+    if (successfulScrapes.length === 0) {
+      throw new Error("Failed to scrape any content from URLs");
+    }
+
+    // Cache in background (don't await)
+    const allUrls = scrapedContent.map(c => c.url);
+    cacheContent(cacheKey, allUrls, scrapedContent).catch(err =>
+      console.warn(`[API] Cache write failed:`, err)
+    );
+  }
+
+  // Process and rank sources. Blocked domains also cover crawled links and
+  // cached pages; seeds are explicit and always kept.
+  const successfulScrapes = scrapedContent.filter(c => {
+    if (!c.success) return false;
+    if (seedUrls.has(c.url) || !isBlocked(c.url, domainRules)) return true;
+    blockedUrls.add(c.url);
+    return false;
+  });
+  paywalledPages.push(...scrapedContent.filter(c => c.isPaywalled && !paywalledPages.some(p => p.url === c.url)));
+
+  if (blockedUrls.size > 0) {
+    console.log(`[API] Blocked ${blockedUrls.size} URL(s) by domain rules`);
+  }
+
+  // One docs version per skill. Pages for other versions are dropped, unless
+  // too few sources would remain; then (and for seeds) they are kept, flagged
+  // and ranked lower.
+  const docVersion = selectDocVersion(successfulScrapes, searchTopic);
+  let versionedScrapes = successfulScrapes;
+  if (docVersion) {
+    console.log(`[API] Docs version: ${docVersion.target} (${docVersion.basis}), found ${JSON.stringify(docVersion.versions)}`);
+    if (docVersion.requested) {
+      addWarning(`No sources for requested version ${docVersion.requested}; targeting version ${docVersion.target}`);
+    }
+
+    const mismatched = successfulScrapes.filter(c => !matchesDocVersion(c, docVersion));
+    const dropMismatched = successfulScrapes.length - mismatched.length >= MIN_SOURCES;
+    versionedScrapes = successfulScrapes.flatMap(c => {
+      if (matchesDocVersion(c, docVersion)) return [c];
+      if (dropMismatched && !seedUrls.has(c.url)) return [];
+      return [{ ...c, versionMismatch: true }];
+    });
+
+    const dropped = successfulScrapes.length - versionedScrapes.length;
+    const flagged = mismatched.length - dropped;
+    const otherVersions = [...new Set(mismatched.map(c => c.docVersion))].join(", ");
+    if (dropped > 0) {
+      addWarning(`${dropped} source(s) for other docs versions dropped (${otherVersions}); targeting version ${docVersion.target}`);
+    }
+    if (flagged > 0) {
+      addWarning(`${flagged} source(s) document other versions than ${docVersion.target} and were kept, flagged`);
+    }
+  }
+
+  // Final official docs decision, now also counting links between the crawled pages
+  officialDocs = detectOfficialDocs(searchTopic, { searchResults, pages: versionedScrapes });
+  const markedScrapes = versionedScrapes.map(c => ({ ...c, isOfficial: isOfficialUrl(c.url, officialDocs) }));
+
+  // Mirrors and versioned copies of a page only keep their best-ranked copy
+  const { kept: rankedSources, duplicates } = dropNearDuplicates(
+    rankSources(markedScrapes, seedUrls, domainRules, officialDocs),
+    ranked => ranked.source.markdown
+  );
+  if (duplicates.length > 0) {
+    duplicates.forEach(({ item, duplicateOf }) =>
+      console.log(`[API] Near-duplicate: ${item.source.url} (copy of ${duplicateOf.source.url})`)
+    );
+    addWarning(`${duplicates.length} near-duplicate source(s) dropped`);
+  }
+  const maxSources = generationOptions.maxSources ?? MAX_SOURCES;
+  let selectedSources = trimContent(
+    selectSources(rankedSources, maxSources),
+    generationOptions.maxContentLength ?? MAX_CONTENT_LENGTH
+  );
+
+  const selectedChars = selectedSources.reduce((sum, s) => sum + s.markdown.length, 0);
+  console.log(`[API] Selected ${selectedSources.length} sources (${selectedChars} chars)`);
+
+  // Check if any sources used the fallback strategy
+  const fallbackUsed = selectedSources.some(s => s.fallbackUsed);
+
+  if (paywalledPages.length > 0) {
+    addWarning(`${paywalledPages.length} source(s) paywalled/blocked${fallbackUsed ? ' (fallback used)' : ''}`);
+    // Say why, so false positives can be fixed with paywall.never in the config
+    paywalledPages
+      .slice(0, MAX_PAYWALL_REASONS)
+      .forEach(page => addWarning(`Paywalled: ${page.url} (${page.paywall ? describePaywall(page.paywall) : 'no details'})`));
+    if (paywalledPages.length > MAX_PAYWALL_REASONS) {
+      addWarning(`...and ${paywalledPages.length - MAX_PAYWALL_REASONS} more paywalled source(s)`);
+    }
+  }
+  if (fallbackUsed) {
+    addWarning('Some sources flagged as paywalled but used due to substantial content (>1000 chars)');
+  }
+
+  if (selectedSources.length < MIN_SOURCES) {
+    throw new Error(`Need at least ${MIN_SOURCES} valid sources, only found ${selectedSources.length}`);
+  }
+
+  // OPTIMIZATION: Start classification immediately (uses Sonnet - fast)
+  sendProgress("analyzing", "Classifying & preparing...", 25);
+  console.log(`[API] Starting classification (Sonnet)...`);
+
+  const classificationStart = Date.now();
+  const classification = await classifyTopic(searchTopic, selectedSources, { signal, ledger, budget });
+
+  console.log(`[API] Classification: ${classification.type} (${((Date.now() - classificationStart) / 1000).toFixed(1)}s)`);
+  sendProgress("analyzing", `${classification.type} (${classification.complexity})`, 35);
+
+  // Libraries and CLIs get their registry metadata as a structured first source
+  let packages: PackageInfo[] = [];
+  if (classification.type === 'library' || classification.type === 'cli') {
+    try {
+      packages = await resolvePackages(searchTopic, selectedSources, { signal, cli: classification.type === 'cli' });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      addWarning(`Package registry lookup failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    selectedSources = [...packages.map(packageToSource), ...selectedSources];
+
+    // Registry homepages are maintained by the project, so they settle the official docs site
+    const homepages = packages.flatMap(pkg => (pkg.homepage ? [pkg.homepage] : []));
+    if (homepages.length > 0) {
+      officialDocs = detectOfficialDocs(searchTopic, { searchResults, pages: versionedScrapes, homepages });
+      selectedSources = selectedSources.map(c => ({ ...c, isOfficial: isOfficialUrl(c.url, officialDocs) }));
+    }
+  }
+
+  return {
+    searchTopic,
+    seeds,
+    searchResults,
+    validationResults,
+    validationMetadata,
+    urls,
+    scrapedContent,
+    usedCache,
+    rankedSources,
+    maxSources,
+    selectedSources,
+    selectedChars,
+    paywalledPages,
+    classification,
+    domains: {
+      ...domainRules,
+      blockedUrls: [...blockedUrls],
+      preferredUrls: rankedSources.filter(r => r.isPreferred).map(r => r.source.url),
+    },
+    officialDocs,
+    packages,
+    docVersion,
+  };
+}
+
+/**
+ * Runs the full search → validate → crawl → classify → generate pipeline for
+ * one request. Transport-agnostic: the SSE route and the job runner both call
+ * this and only differ in how they deliver progress and the result.
+ *
+ * Emits progress, source-discovered and warning events through `onEvent` as
+ * they happen; warnings are also collected into the result metadata.
+ *
+ * Throws with a user-facing message on failure. When `signal` aborts, logs the
+ * partial cost of the work done so far and rethrows the abort reason.
+ */
+export async function runGeneration(
+  body: GenerateRequest,
+  options: PipelineOptions = {}
+): Promise<GenerationResult> {
+  return withPipelineRun(body, options, async run => {
+    const { signal, ledger, budget, warnings, startTime, sendProgress, addWarning } = run;
+    const generationOptions = body?.options ?? {};
+    // Checked before any spend: there is nobody to approve the outline without a reviewer
+    if (generationOptions.reviewOutline && !options.reviewAnalysis) {
+      throw new Error("options.reviewOutline is only supported by the jobs API (/api/jobs)");
+    }
+
+    const {
+      searchTopic,
+      seeds,
+      validationMetadata,
+      urls,
+      scrapedContent,
+      usedCache,
+      selectedSources,
+      selectedChars,
+      paywalledPages,
+      classification,
+      domains,
+      officialDocs,
+      packages,
+      docVersion,
+    } = await prepareSources(body, run);
+
+    // Generation
+    sendProgress("generating", "Generating skill documentation...", 45);
+    console.log(`\n[API] Starting 4-pass generation...`);
+
+    const { content, warnings: generationWarnings } = await generateSkill(
+      searchTopic,
+      selectedSources,
+      classification,
+      (phase, message, progress) => {
+        sendProgress(phase, message, 45 + (progress * 0.50));
+      },
+      {
+        signal,
+        ledger,
+        budget,
+        reviewAnalysis: generationOptions.reviewOutline ? options.reviewAnalysis : undefined,
+        model: generationOptions.model,
+        targetLines: generationOptions.targetLines,
+        docVersion,
+        onPartialContent: (pass, delta, reset) =>
+          run.onEvent?.({ type: 'partial-content', pass, delta, reset: reset || undefined }),
+      }
+    );
+
+    console.log(`\n[API] Generation complete: ${content.length} chars`);
+
+    if (!content || content.length === 0) {
+      console.error(`[API] ERROR: Empty content received`);
+      throw new Error("Failed to generate content - received empty response");
+    }
+
+    generationWarnings.forEach(addWarning);
+
+    const metadata: GenerationMetadata = {
+      topic: searchTopic,
+      scrapedCount: selectedSources.length,
+      totalUrls: urls.length,
+      discoveredUrls: scrapedContent.length,
+      topicType: classification.type,
+      complexity: classification.complexity,
+      usedCache,
+      seedCount: seeds.length,
+      paywalledCount: paywalledPages.length,
+      totalChars: selectedChars,
+      validation: validationMetadata,
+      cost: ledger.getBreakdown(),
+      budget: budget.limits,
+      domains,
+      officialDocs,
+      packages,
+      docVersion,
+      warnings,
+      generatedAt: new Date().toISOString(),
+      duration: `${((Date.now() - startTime) / 1000).toFixed(1)}s`,
+    };
+
+    console.log(`\n[API] Result ready:`);
+    console.log(`  Content: ${content.length} chars`);
+    console.log(`  Cost: ${formatCost(metadata.cost.totalCost)} (${metadata.cost.inputTokens} in / ${metadata.cost.outputTokens} out tokens, ${metadata.cost.scrapes.count} scrapes, ${metadata.cost.searches.count} searches)`);
+    console.log(`  Warnings: ${metadata.warnings.length > 0 ? metadata.warnings.join(', ') : 'none'}`);
+    console.log(`========== REQUEST COMPLETE ==========\n`);
+
+    return { content, metadata };
+  });
+}
+
+/**
+ * Dry run: everything up to and including classification, without generating.
+ * Returns the search hits, validation results, crawled pages, ranking scores,
+ * the source selection and the classification so inputs can be adjusted
+ * before committing to the expensive generation passes.
+ */
+export async function planGeneration(
+  body: GenerateRequest,
+  options: PipelineOptions = {}
+): Promise<GenerationPlan> {
+  return withPipelineRun(body, options, async run => {
+    const prepared = await prepareSources(body, run);
+    const selectedUrls = new Set(prepared.selectedSources.map(s => s.url));
+
+    const plan: GenerationPlan = {
+      topic: prepared.searchTopic,
+      seeds: prepared.seeds,
+      usedCache: prepared.usedCache,
+      searchResults: prepared.searchResults,
+      validation: prepared.validationResults,
+      crawledPages: [
+        ...prepared.scrapedContent,
+        ...prepared.paywalledPages.filter(page => !page.success),
+      ].map(page => ({
+        url: page.url,
+        success: page.success,
+        isPaywalled: page.isPaywalled ?? false,
+        paywall: page.paywall,
+        chars: page.markdown.length,
+        error: page.error,
+      })),
+      rankedSources: prepared.rankedSources.map(({ source, score, isSeed, isPreferred, isOfficial }) => ({
+        url: source.url,
+        score,
+        isSeed,
+        isPreferred,
+        isOfficial,
+        queries: source.queries,
+        docVersion: source.docVersion,
+        versionMismatch: source.versionMismatch,
+        chars: source.markdown.length,
+        selected: selectedUrls.has(source.url),
+      })),
+      maxSources: prepared.maxSources,
+      classification: prepared.classification,
+      domains: prepared.domains,
+      officialDocs: prepared.officialDocs,
+      packages: prepared.packages,
+      docVersion: prepared.docVersion,
+      warnings: run.warnings,
+      cost: run.ledger.getBreakdown(),
+      duration: `${((Date.now() - run.startTime) / 1000).toFixed(1)}s`,
+    };
+
+    console.log(`[API] Plan ready: ${plan.rankedSources.length} ranked, ${selectedUrls.size} selected, ${plan.classification.type}`);
+    console.log(`========== PLAN COMPLETE ==========\n`);
+
+    return plan;
+  });
+}
@@ -0,0 +1,115 @@
+// Per-host request pacing, shared by the URL validator and every scraper
+// Each host gets at most politeness.hostConcurrency requests in flight, and
+// request starts are spaced by politeness.hostInterval or the site's
+// robots.txt Crawl-delay (which also drops the host to one request at a time).
+
+import { getConfig } from "./config";
+import { getRobotsRules, isAllowedByRobots } from "./robots";
+
+interface HostState {
+  active: number;
+  waiting: (() => void)[];
+  nextStart: number;      // Earliest time the next request may start
+}
+
+const hosts = new Map<string, HostState>();
+
+export function getUserAgent(): string {
+  return getConfig().politeness.userAgent;
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host.toLowerCase();
+  } catch {
+    return url;
+  }
+}
+
+// Resolves after `ms`, or rejects as soon as the signal aborts
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs `task` once its host has a free slot and the pacing interval has
+ * passed. Callers must not nest calls for the same host (e.g. across a
+ * redirect), or a full host can wait on itself.
+ */
+export async function withHostSlot<T>(url: string, task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+  const { crawlDelay } = await getRobotsRules(url, signal);
+  return withPacedSlot(url, crawlDelay, task, signal);
+}
+
+// withHostSlot with the crawl delay already known; robots.txt itself is
+// fetched through this, since its rules are what withHostSlot waits for
+export async function withPacedSlot<T>(
+  url: string,
+  crawlDelay: number | undefined,
+  task: () => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  const { politeness } = getConfig();
+  const delay = crawlDelay !== undefined ? Math.min(crawlDelay, politeness.maxCrawlDelay) * 1000 : 0;
+  const interval = Math.max(politeness.hostInterval, delay);
+  const concurrency = delay > 0 ? 1 : Math.max(1, politeness.hostConcurrency);
+
+  const host = hostOf(url);
+  let state = hosts.get(host);
+  if (!state) {
+    state = { active: 0, waiting: [], nextStart: 0 };
+    hosts.set(host, state);
+  }
+
+  while (state.active >= concurrency) {
+    await new Promise<void>(resolve => state!.waiting.push(resolve));
+  }
+  state.active++;
+
+  try {
+    const start = Math.max(Date.now(), state.nextStart);
+    state.nextStart = start + interval;
+    if (start > Date.now()) {
+      await sleep(start - Date.now(), signal);
+    }
+    signal?.throwIfAborted();
+    return await task();
+  } finally {
+    state.active--;
+    const next = state.waiting.shift();
+    if (next) {
+      next();
+    } else if (state.active === 0 && state.nextStart < Date.now()) {
+      hosts.delete(host);
+    }
+  }
+}
+
+/**
+ * GET for discovery files (llms.txt, sitemaps): robots.txt-checked, paced
+ * through the host's slot and sent with our user agent. Resolves to null when
+ * robots.txt disallows the URL; network errors and timeouts reject.
+ */
+export async function politeFetch(
+  url: string,
+  options: { accept: string; timeout: number; signal?: AbortSignal }
+): Promise<Response | null> {
+  if (!(await isAllowedByRobots(url, options.signal))) return null;
+
+  const { accept, timeout, signal } = options;
+  return withHostSlot(url, () => fetch(url, {
+    headers: { "User-Agent": getUserAgent(), Accept: accept },
+    signal: signal ? AbortSignal.any([signal, AbortSignal.timeout(timeout)]) : AbortSignal.timeout(timeout),
+  }), signal);
+}
@@ -0,0 +1,110 @@
+import { PackageEcosystem } from "@/types";
+import type { PackageRegistry, RegistryPackage } from "./registry";
+
+// Public registry APIs; none need credentials
+
+async function fetchJson<T>(url: string, signal?: AbortSignal): Promise<T | null> {
+  const response = await fetch(url, {
+    // crates.io rejects requests without a User-Agent
+    headers: { Accept: "application/json", "User-Agent": "hyperskill (package metadata lookup)" },
+    signal,
+  });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Registry error: ${response.status} ${response.statusText} (${url})`);
+  }
+  return response.json();
+}
+
+// "git+https://github.com/x/y.git" → "https://github.com/x/y"
+function cleanRepositoryUrl(url?: string): string | undefined {
+  return url?.replace(/^git\+/, "").replace(/^git:\/\//, "https://").replace(/\.git$/, "") || undefined;
+}
+
+const npmRegistry: PackageRegistry = {
+  ecosystem: 'npm',
+
+  async lookup(name, signal): Promise<RegistryPackage | null> {
+    const data = await fetchJson<{
+      name: string;
+      version: string;
+      description?: string;
+      homepage?: string;
+      repository?: string | { url?: string };
+      peerDependencies?: Record<string, string>;
+      bin?: string | Record<string, string>;
+    }>(`https://registry.npmjs.org/${name.replace("/", "%2F")}/latest`, signal);
+    if (!data) return null;
+
+    const bins = typeof data.bin === "string" ? [data.name.replace(/^@[^/]+\//, "")] : Object.keys(data.bin ?? {});
+    return {
+      ecosystem: 'npm',
+      name: data.name,
+      version: data.version,
+      description: data.description,
+      homepage: data.homepage,
+      repository: cleanRepositoryUrl(typeof data.repository === "string" ? data.repository : data.repository?.url),
+      registryUrl: `https://www.npmjs.com/package/${data.name}`,
+      peerDependencies: data.peerDependencies ?? {},
+      bins,
+    };
+  },
+};
+
+const pypiRegistry: PackageRegistry = {
+  ecosystem: 'pypi',
+
+  async lookup(name, signal): Promise<RegistryPackage | null> {
+    const data = await fetchJson<{
+      info: { name: string; version: string; summary?: string; home_page?: string; project_urls?: Record<string, string> | null };
+    }>(`https://pypi.org/pypi/${encodeURIComponent(name)}/json`, signal);
+    if (!data) return null;
+
+    const urls = data.info.project_urls ?? {};
+    const findUrl = (...keys: string[]) =>
+      Object.entries(urls).find(([key]) => keys.includes(key.toLowerCase()))?.[1];
+    return {
+      ecosystem: 'pypi',
+      name: data.info.name,
+      version: data.info.version,
+      description: data.info.summary,
+      homepage: findUrl("documentation", "docs", "homepage", "home") || data.info.home_page || undefined,
+      repository: cleanRepositoryUrl(findUrl("source", "source code", "repository", "code", "github")),
+      registryUrl: `https://pypi.org/project/${data.info.name}/`,
+      peerDependencies: {},
+      // Console scripts are not part of the PyPI JSON API
+      bins: [],
+    };
+  },
+};
+
+const cratesRegistry: PackageRegistry = {
+  ecosystem: 'crates',
+
+  async lookup(name, signal): Promise<RegistryPackage | null> {
+    const data = await fetchJson<{
+      crate: { name: string; max_stable_version?: string; newest_version: string; description?: string; homepage?: string; documentation?: string; repository?: string };
+      versions?: { num: string; bin_names?: string[] }[];
+    }>(`https://crates.io/api/v1/crates/${encodeURIComponent(name)}`, signal);
+    if (!data) return null;
+
+    const version = data.crate.max_stable_version || data.crate.newest_version;
+    return {
+      ecosystem: 'crates',
+      name: data.crate.name,
+      version,
+      description: data.crate.description,
+      homepage: data.crate.documentation || data.crate.homepage,
+      repository: cleanRepositoryUrl(data.crate.repository),
+      registryUrl: `https://crates.io/crates/${data.crate.name}`,
+      peerDependencies: {},
+      bins: data.versions?.find(v => v.num === version)?.bin_names ?? [],
+    };
+  },
+};
+
+export const liveRegistries: Record<PackageEcosystem, PackageRegistry> = {
+  npm: npmRegistry,
+  pypi: pypiRegistry,
+  crates: cratesRegistry,
+};
@@ -0,0 +1,53 @@
+import * as fs from "fs";
+import * as path from "path";
+import { PackageEcosystem } from "@/types";
+import type { PackageRegistry, RegistryPackage } from "./registry";
+
+// Canned registry data for offline development and tests:
+//
+//   { "npm": { "acme-widgets": { "version": "2.0.0", "bins": [], ... } }, "pypi": {}, "crates": {} }
+//
+// Entries use the RegistryPackage fields; ecosystem, name and registryUrl are filled in.
+const DEFAULT_MOCK_PATH = "fixtures/registry.json";
+
+type MockEntry = Partial<RegistryPackage> & { version: string };
+
+const REGISTRY_URLS: Record<PackageEcosystem, (name: string) => string> = {
+  npm: name => `https://www.npmjs.com/package/${name}`,
+  pypi: name => `https://pypi.org/project/${name}/`,
+  crates: name => `https://crates.io/crates/${name}`,
+};
+
+export function createMockRegistries(mockPath = DEFAULT_MOCK_PATH): Record<PackageEcosystem, PackageRegistry> {
+  const resolvedPath = path.resolve(process.cwd(), mockPath);
+
+  const createRegistry = (ecosystem: PackageEcosystem): PackageRegistry => ({
+    ecosystem,
+
+    async lookup(name: string): Promise<RegistryPackage | null> {
+      // Re-read on every call so fixtures can be edited without a restart
+      if (!fs.existsSync(resolvedPath)) {
+        throw new Error(`Registry fixture file not found: ${resolvedPath}`);
+      }
+      const fixtures: Partial<Record<PackageEcosystem, Record<string, MockEntry>>> =
+        JSON.parse(fs.readFileSync(resolvedPath, "utf-8"));
+
+      const entry = fixtures[ecosystem]?.[name];
+      if (!entry) return null;
+      return {
+        ...entry,
+        ecosystem,
+        name,
+        registryUrl: entry.registryUrl ?? REGISTRY_URLS[ecosystem](name),
+        peerDependencies: entry.peerDependencies ?? {},
+        bins: entry.bins ?? [],
+      };
+    },
+  });
+
+  return {
+    npm: createRegistry('npm'),
+    pypi: createRegistry('pypi'),
+    crates: createRegistry('crates'),
+  };
+}
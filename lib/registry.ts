@@ -0,0 +1,172 @@
+// Package registry metadata for library and cli topics
+// The package is resolved from install commands in the scraped docs (or the
+// topic name), looked up in its registry, and turned into a structured source
+// with exact install commands, versions and dependency names.
+
+import { PackageEcosystem, PackageInfo, ScrapedContent } from "@/types";
+import { getConfig } from "./config";
+import { liveRegistries } from "./registry-live";
+import { createMockRegistries } from "./registry-mock";
+
+// What a registry knows; the install command is derived in resolvePackages
+export type RegistryPackage = Omit<PackageInfo, 'installCommand'>;
+
+export interface PackageRegistry {
+  ecosystem: PackageEcosystem;
+  // Latest version of `name`, or null when the package does not exist
+  lookup(name: string, signal?: AbortSignal): Promise<RegistryPackage | null>;
+}
+
+export interface ResolvePackagesOptions {
+  signal?: AbortSignal;
+  cli?: boolean;    // Install globally / as a binary rather than as a dependency
+}
+
+// Lookups per generation; each is one HTTP request to a public registry
+const MAX_LOOKUPS = 4;
+const MAX_PACKAGES = 2;
+
+// Install commands in docs name the real package, even when it differs from the topic
+const INSTALL_PATTERNS: { ecosystem: PackageEcosystem; pattern: RegExp }[] = [
+  { ecosystem: 'npm', pattern: /\b(?:npm (?:install|i|add)|pnpm (?:add|install)|yarn (?:global )?add|bun add)\s+(?:-{1,2}[\w-]+\s+)*((?:@[\w.-]+\/)?[a-z0-9][\w.-]*)/gi },
+  { ecosystem: 'pypi', pattern: /\b(?:pip3?|uv pip|pipx) install\s+(?:-{1,2}[\w-]+\s+)*([a-z0-9][\w.-]*)/gi },
+  { ecosystem: 'crates', pattern: /\bcargo (?:add|install)\s+(?:-{1,2}[\w-]+\s+)*([a-z0-9][\w-]*)/gi },
+];
+
+let registries: Record<PackageEcosystem, PackageRegistry> | null = null;
+
+export function getRegistries(): Record<PackageEcosystem, PackageRegistry> {
+  if (!registries) {
+    const { registry } = getConfig();
+    const provider = process.env.REGISTRY_PROVIDER || registry.provider;
+    if (provider === 'mock') {
+      registries = createMockRegistries(process.env.REGISTRY_MOCK_PATH || registry.mockPath);
+    } else if (provider === 'live') {
+      registries = liveRegistries;
+    } else {
+      throw new Error(`Unknown registry provider "${provider}" (expected live or mock)`);
+    }
+    console.log(`[Registry] Using ${provider} registries`);
+  }
+  return registries;
+}
+
+interface Candidate {
+  ecosystem: PackageEcosystem;
+  name: string;
+  mentions: number;
+}
+
+/**
+ * Package names worth looking up, most likely first: names from install
+ * commands in the sources (names sharing a word with the topic first, then
+ * by mentions), then the topic itself as an npm, PyPI and crates name.
+ */
+export function findPackageCandidates(topic: string, sources: ScrapedContent[]): Candidate[] {
+  const topicWords = topic.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length >= 3);
+  const counts = new Map<string, Candidate>();
+
+  for (const source of sources) {
+    for (const { ecosystem, pattern } of INSTALL_PATTERNS) {
+      for (const match of source.markdown.matchAll(pattern)) {
+        const name = match[1].replace(/[.,;:]+$/, "").toLowerCase();
+        const key = `${ecosystem}:${name}`;
+        const candidate = counts.get(key) ?? { ecosystem, name, mentions: 0 };
+        candidate.mentions++;
+        counts.set(key, candidate);
+      }
+    }
+  }
+
+  const matchesTopic = (name: string) => topicWords.some(word => name.includes(word));
+  const fromDocs = Array.from(counts.values()).sort((a, b) =>
+    Number(matchesTopic(b.name)) - Number(matchesTopic(a.name)) || b.mentions - a.mentions
+  );
+
+  const slug = topic.toLowerCase().trim().replace(/[^a-z0-9@/.]+/g, "-").replace(/^-|-$/g, "");
+  const fromTopic: Candidate[] = slug
+    ? (['npm', 'pypi', 'crates'] as const).map(ecosystem => ({ ecosystem, name: slug, mentions: 0 }))
+    : [];
+
+  const seen = new Set<string>();
+  return [...fromDocs, ...fromTopic].filter(candidate => {
+    const key = `${candidate.ecosystem}:${candidate.name}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function installCommand(pkg: RegistryPackage, cli: boolean): string {
+  switch (pkg.ecosystem) {
+    case 'npm':
+      return cli && pkg.bins.length > 0 ? `npm install -g ${pkg.name}` : `npm install ${pkg.name}`;
+    case 'pypi':
+      return cli ? `pipx install ${pkg.name}` : `pip install ${pkg.name}`;
+    case 'crates':
+      return cli && pkg.bins.length > 0 ? `cargo install ${pkg.name}` : `cargo add ${pkg.name}`;
+  }
+}
+
+// Where projects declare the dependency, for "Detecting Projects"
+const MANIFESTS: Record<PackageEcosystem, string> = {
+  npm: "package.json (dependencies / devDependencies)",
+  pypi: "pyproject.toml ([project] dependencies) or requirements.txt",
+  crates: "Cargo.toml ([dependencies])",
+};
+
+/**
+ * Looks up candidates in order until MAX_PACKAGES are found or MAX_LOOKUPS
+ * requests are spent. A failing lookup is logged and skipped.
+ */
+export async function resolvePackages(
+  topic: string,
+  sources: ScrapedContent[],
+  options: ResolvePackagesOptions = {}
+): Promise<PackageInfo[]> {
+  const candidates = findPackageCandidates(topic, sources).slice(0, MAX_LOOKUPS);
+  const packageRegistries = getRegistries();
+  const packages: PackageInfo[] = [];
+
+  for (const candidate of candidates) {
+    if (packages.length >= MAX_PACKAGES) break;
+    try {
+      const found = await packageRegistries[candidate.ecosystem].lookup(candidate.name, options.signal);
+      if (found) {
+        packages.push({ ...found, installCommand: installCommand(found, options.cli ?? false) });
+      }
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      console.warn(`[Registry] ${candidate.ecosystem} lookup failed for ${candidate.name}:`, error);
+    }
+  }
+
+  console.log(`[Registry] Resolved ${packages.map(p => `${p.ecosystem}:${p.name}@${p.version}`).join(", ") || "no packages"}`);
+  return packages;
+}
+
+// The structured source handed to generation alongside the scraped pages
+export function packageToSource(pkg: PackageInfo): ScrapedContent {
+  const peers = Object.entries(pkg.peerDependencies);
+  const lines = [
+    `# ${pkg.name} ${pkg.version} (${pkg.ecosystem} package registry)`,
+    "",
+    pkg.description ?? "",
+    "",
+    `- Latest version: ${pkg.version}`,
+    `- Install: \`${pkg.installCommand}\``,
+    `- Declared in: ${MANIFESTS[pkg.ecosystem]} as \`${pkg.name}\``,
+    pkg.homepage ? `- Homepage: ${pkg.homepage}` : "",
+    pkg.repository ? `- Repository: ${pkg.repository}` : "",
+    peers.length > 0 ? `- Peer dependencies: ${peers.map(([name, range]) => `\`${name}@${range}\``).join(", ")}` : "",
+    pkg.bins.length > 0 ? `- Executables: ${pkg.bins.map(bin => `\`${bin}\``).join(", ")}` : "",
+  ];
+
+  return {
+    url: pkg.registryUrl,
+    markdown: lines.filter((line, index) => line !== "" || lines[index - 1] !== "").join("\n").trim(),
+    success: true,
+    crawledAt: new Date().toISOString(),
+    packageInfo: pkg,
+  };
+}
@@ -0,0 +1,107 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import type { AddressInfo } from "net";
+import { getRobotsRules, isPathAllowed, parseRobots, productToken } from "./robots";
+
+// Read by the first getConfig() call, which happens inside the tests
+const configPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "robots-test-")), "skills.config.json");
+fs.writeFileSync(configPath, JSON.stringify({ politeness: { hostInterval: 0 } }));
+process.env.SKILLS_CONFIG_PATH = configPath;
+
+const USER_AGENT = "Mozilla/5.0 (compatible; HyperSkill/1.0)";
+
+const servers: http.Server[] = [];
+after(() => servers.forEach(server => server.close()));
+
+// Starts a local site whose robots.txt answers with `status`
+function serveRobots(status: number): Promise<string> {
+  const server = http.createServer((_request, response) => {
+    response.writeHead(status, { "Content-Type": "text/plain" });
+    response.end("User-agent: *\nDisallow: /private\n");
+  });
+  servers.push(server);
+  return new Promise(resolve => server.listen(0, "127.0.0.1", () => {
+    resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  }));
+}
+
+test("productToken skips the Mozilla prefix", () => {
+  assert.equal(productToken(USER_AGENT), "hyperskill");
+  assert.equal(productToken("HyperSkill"), "hyperskill");
+  assert.equal(productToken("Mozilla/5.0"), "mozilla");
+});
+
+test("an empty group for our product token overrides the * group", () => {
+  const rules = parseRobots("User-agent: *\nDisallow: /\n\nUser-agent: HyperSkill\nDisallow:\n", USER_AGENT);
+  assert.deepEqual(rules, { rules: [], sitemaps: [] });
+  assert.equal(isPathAllowed(rules, "/docs"), true);
+});
+
+test("groups naming other parts of the user agent string do not bind", () => {
+  const text = "User-agent: mozilla\nDisallow: /\n\nUser-agent: compatible\nDisallow: /\n\nUser-agent: *\nDisallow: /private\n";
+  const rules = parseRobots(text, USER_AGENT);
+  assert.deepEqual(rules.rules, [{ allow: false, pattern: "/private" }]);
+});
+
+test("matching groups are combined and keep their crawl-delay", () => {
+  const text = "User-agent: hyperskill\nDisallow: /a\n\nUser-agent: other\nUser-agent: HyperSkill\nAllow: /a/public\nCrawl-delay: 2\n";
+  assert.deepEqual(parseRobots(text, USER_AGENT), {
+    rules: [{ allow: false, pattern: "/a" }, { allow: true, pattern: "/a/public" }],
+    crawlDelay: 2,
+    sitemaps: [],
+  });
+});
+
+test("Sitemap lines are collected outside any group", () => {
+  const text = "Sitemap: https://example.com/sitemap.xml\nUser-agent: other\nDisallow: /\nSitemap: /relative.xml\nSitemap: https://example.com/docs.xml\n";
+  assert.deepEqual(parseRobots(text, USER_AGENT).sitemaps, [
+    "https://example.com/sitemap.xml",
+    "https://example.com/docs.xml",
+  ]);
+});
+
+test("isPathAllowed picks the longest match, with Allow winning ties", () => {
+  const rules = parseRobots([
+    "User-agent: *",
+    "Disallow: /docs",
+    "Allow: /docs/public",
+    "Disallow: /*.pdf$",
+    "Allow: /same",
+    "Disallow: /same",
+  ].join("\n"), USER_AGENT);
+
+  assert.equal(isPathAllowed(rules, "/docs/intro"), false);
+  assert.equal(isPathAllowed(rules, "/docs/public/intro"), true);
+  assert.equal(isPathAllowed(rules, "/guide/file.pdf"), false);
+  assert.equal(isPathAllowed(rules, "/guide/file.pdf?x=1"), true);
+  assert.equal(isPathAllowed(rules, "/same"), true);
+});
+
+test("a missing robots.txt allows everything", async () => {
+  const rules = await getRobotsRules(`${await serveRobots(404)}/page`);
+  assert.deepEqual(rules.rules, []);
+});
+
+test("server errors and unreachable hosts disallow everything", async () => {
+  const origin = await serveRobots(503);
+  const failing = http.createServer();
+  const closedPort = await new Promise<number>(resolve => failing.listen(0, "127.0.0.1", () => {
+    const { port } = failing.address() as AddressInfo;
+    failing.close(() => resolve(port));
+  }));
+
+  for (const url of [`${origin}/page`, `http://127.0.0.1:${closedPort}/page`]) {
+    const rules = await getRobotsRules(url);
+    assert.equal(isPathAllowed(rules, "/page"), false, url);
+  }
+});
+
+test("an aborted request is not cached as the site's answer", async () => {
+  const url = `${await serveRobots(200)}/page`;
+  await assert.rejects(getRobotsRules(url, AbortSignal.abort()));
+  assert.deepEqual((await getRobotsRules(url)).rules, [{ allow: false, pattern: "/private" }]);
+});
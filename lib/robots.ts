@@ -0,0 +1,198 @@
+// robots.txt fetching, parsing and caching
+// Rules are read once per origin (cached for an hour) and matched against our
+// user agent ("politeness.userAgent"). A missing robots.txt (4xx) allows
+// everything; a server error or failed fetch disallows everything for a few
+// minutes, as RFC 9309 asks. Set politeness.respectRobots to false to skip
+// the checks (the file's Sitemap lines are then not read either).
+
+import { getConfig } from "./config";
+import { withPacedSlot } from "./politeness";
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+export interface RobotsRules {
+  rules: RobotsRule[];
+  crawlDelay?: number;  // Seconds, as declared by the site
+  sitemaps: string[];   // "Sitemap:" lines; they apply to every user agent
+}
+
+const ROBOTS_TIMEOUT = 5000;
+const ROBOTS_TTL = 60 * 60 * 1000;          // 1 hour
+const UNREACHABLE_TTL = 5 * 60 * 1000;      // Retry sooner when the fetch failed
+const MAX_ROBOTS_SIZE = 500 * 1024;         // Google ignores anything past 500 KiB
+
+const ALLOW_ALL: RobotsRules = { rules: [], sitemaps: [] };
+const DISALLOW_ALL: RobotsRules = { rules: [{ allow: false, pattern: "/" }], sitemaps: [] };
+
+// Per origin; the promise is cached so concurrent checks share one fetch
+const robotsCache = new Map<string, { rules: Promise<RobotsRules>; expiresAt: number }>();
+
+// The product token groups are matched against: "HyperSkill" in
+// "Mozilla/5.0 (compatible; HyperSkill/1.0)", or the first word otherwise
+export function productToken(userAgent: string): string {
+  const products = [...userAgent.matchAll(/([A-Za-z][\w-]*)\/[\w.]+/g)]
+    .map(match => match[1].toLowerCase())
+    .filter(name => name !== "mozilla");
+  return products[0] ?? userAgent.trim().split(/[\s/;()]+/)[0].toLowerCase();
+}
+
+/**
+ * Parses robots.txt into the rules that apply to `userAgent`. A group naming
+ * our product token wins over the "*" group, even when it has no rules (an
+ * empty Disallow allows everything); several matching groups are combined.
+ */
+export function parseRobots(text: string, userAgent: string): RobotsRules {
+  const token = productToken(userAgent);
+  const specific: RobotsRules = { rules: [], sitemaps: [] };
+  const wildcard: RobotsRules = { rules: [], sitemaps: [] };
+  const sitemaps: string[] = [];
+  let hasSpecific = false;
+  let groupAgents: string[] = [];
+  let inRules = false;
+
+  for (const rawLine of text.slice(0, MAX_ROBOTS_SIZE).split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    // Sitemap lines are not part of any group
+    if (field === "sitemap") {
+      if (/^https?:\/\//i.test(value)) sitemaps.push(value);
+      continue;
+    }
+
+    if (field === "user-agent") {
+      // A user-agent line after rules starts a new group
+      if (inRules) {
+        groupAgents = [];
+        inRules = false;
+      }
+      groupAgents.push(value.toLowerCase());
+      hasSpecific ||= value.toLowerCase() === token;
+      continue;
+    }
+
+    inRules = true;
+    const targets = [
+      ...(groupAgents.includes(token) ? [specific] : []),
+      ...(groupAgents.includes("*") ? [wildcard] : []),
+    ];
+
+    for (const target of targets) {
+      if ((field === "allow" || field === "disallow") && value) {
+        target.rules.push({ allow: field === "allow", pattern: value });
+      } else if (field === "crawl-delay" && Number.isFinite(Number(value))) {
+        target.crawlDelay = Number(value);
+      }
+    }
+  }
+
+  const group = hasSpecific ? specific : wildcard;
+  return { ...group, sitemaps };
+}
+
+// "*" matches any run of characters, a trailing "$" anchors the end
+function matchesPattern(path: string, pattern: string): boolean {
+  const anchored = pattern.endsWith("$");
+  const source = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}${anchored ? "$" : ""}`).test(path);
+}
+
+// The longest matching rule decides; Allow wins a tie
+export function isPathAllowed(rules: RobotsRules, path: string): boolean {
+  let best: RobotsRule | null = null;
+  for (const rule of rules.rules) {
+    if (!matchesPattern(path, rule.pattern)) continue;
+    if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) {
+      best = rule;
+    }
+  }
+  return best?.allow ?? true;
+}
+
+async function fetchRobots(
+  origin: string,
+  userAgent: string,
+  signal?: AbortSignal
+): Promise<{ rules: RobotsRules; ttl: number }> {
+  try {
+    // Paced like any other request to the host; the timeout starts once it has a slot
+    const response = await withPacedSlot(origin, undefined, () => fetch(`${origin}/robots.txt`, {
+      headers: { "User-Agent": userAgent },
+      signal: signal
+        ? AbortSignal.any([signal, AbortSignal.timeout(ROBOTS_TIMEOUT)])
+        : AbortSignal.timeout(ROBOTS_TIMEOUT),
+    }), signal);
+
+    // 5xx means the site is unreachable: assume everything is disallowed
+    if (response.status >= 500) {
+      console.warn(`[Robots] ${origin}/robots.txt returned ${response.status}, disallowing all for now`);
+      return { rules: DISALLOW_ALL, ttl: UNREACHABLE_TTL };
+    }
+    // 4xx means the site has no robots.txt: everything is allowed
+    if (!response.ok) {
+      return { rules: ALLOW_ALL, ttl: ROBOTS_TTL };
+    }
+    const rules = parseRobots(await response.text(), userAgent);
+    console.log(`[Robots] ${origin}: ${rules.rules.length} rules${rules.crawlDelay !== undefined ? `, crawl-delay ${rules.crawlDelay}s` : ""}`);
+    return { rules, ttl: ROBOTS_TTL };
+  } catch (error) {
+    // The caller gave up; nothing was learned about the site
+    if (signal?.aborted) throw error;
+    console.warn(`[Robots] Could not fetch ${origin}/robots.txt, disallowing all for now:`, error instanceof Error ? error.message : error);
+    return { rules: DISALLOW_ALL, ttl: UNREACHABLE_TTL };
+  }
+}
+
+export async function getRobotsRules(url: string, signal?: AbortSignal): Promise<RobotsRules> {
+  const { politeness } = getConfig();
+  if (!politeness.respectRobots) return ALLOW_ALL;
+
+  let origin: string;
+  try {
+    origin = new URL(url).origin;
+  } catch {
+    return ALLOW_ALL;
+  }
+
+  const cached = robotsCache.get(origin);
+  if (cached && cached.expiresAt > Date.now()) {
+    try {
+      return await cached.rules;
+    } catch (error) {
+      // Another caller's fetch was aborted; fetch again unless we were too
+      if (signal?.aborted) throw error;
+      return getRobotsRules(url, signal);
+    }
+  }
+
+  const entry = { rules: fetchRobots(origin, politeness.userAgent, signal).then(result => {
+    entry.expiresAt = Date.now() + result.ttl;
+    return result.rules;
+  }), expiresAt: Infinity };
+  // Aborted fetches are not cached
+  entry.rules.catch(() => {
+    if (robotsCache.get(origin) === entry) robotsCache.delete(origin);
+  });
+  robotsCache.set(origin, entry);
+  return entry.rules;
+}
+
+export async function isAllowedByRobots(url: string, signal?: AbortSignal): Promise<boolean> {
+  const rules = await getRobotsRules(url, signal);
+  try {
+    const { pathname, search } = new URL(url);
+    return isPathAllowed(rules, `${pathname}${search}`);
+  } catch {
+    return true;  // Unparseable URLs fail later, with a better error
+  }
+}
@@ -0,0 +1,277 @@
+// Page scraping behind pluggable backends
+// Each URL is routed to a backend by domain ("scraper.routes" in
+// skills.config.json), falling back to "scraper.default". Paywall detection,
+// retries, per-host pacing, cost recording and the worker pool are shared by
+// every backend.
+
+import { ScrapedContent, ScrapeFailureReason, ScraperName } from "@/types";
+import { getConfig } from "./config";
+import { CostLedger } from "./cost";
+import { Budget } from "./budget";
+import { matchesDomain } from "./domains";
+import { detectPaywall, SUBSTANTIAL_CONTENT_LENGTH } from "./paywall";
+import { hyperbrowserScraper } from "./hyperbrowser";
+import { nativeScraper } from "./native-scraper";
+import { sleep, withHostSlot } from "./politeness";
+import { urlKey } from "./canonical-url";
+
+export interface Scraper {
+  name: ScraperName;
+  billable: boolean;    // Priced with rates.scrape and counted against the scrape budget
+  // Main content of the page as markdown; errors propagate and are recorded by scrapeUrl
+  scrape(url: string, signal?: AbortSignal): Promise<ScraperOutput>;
+}
+
+export interface ScraperOutput {
+  markdown: string;
+  canonicalUrl?: string;  // rel=canonical or the redirect target, when the backend sees it
+}
+
+export interface ScrapeOptions {
+  signal?: AbortSignal;   // Stops waiting on in-flight scrapes and skips queued ones
+  ledger?: CostLedger;    // Records every billable attempt as it is dispatched, retries included
+  budget?: Budget;        // No billable attempt (first or retry) starts once the budget runs out
+  concurrency?: number;   // scrapeUrls pool size. Default: 5
+  timeout?: number;       // Per attempt. Default: 60000ms
+  retries?: number;       // Extra attempts for retryable failures. Default: 2
+  onFailed?: (result: ScrapedContent) => void;  // Called by scrapeUrls for each failed (not paywalled) page
+}
+
+// Default configuration
+const DEFAULT_CONFIG = {
+  concurrency: 5,
+  timeout: 60000,
+  retries: 2,
+};
+
+// Exponential backoff: 1s, 2s, 4s... capped, with full jitter so a pool of
+// workers hitting the same rate limit does not retry in lockstep
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 10000;
+
+function backoffDelay(attempt: number): number {
+  return Math.random() * Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+}
+
+const RETRYABLE: ScrapeFailureReason[] = ['timeout', 'rate-limited', 'unavailable'];
+
+// Backends throw plain errors; the HTTP status comes from the SDK's statusCode
+// or an "HTTP 503" style message, the rest is matched on the message text
+export function classifyScrapeError(error: unknown): ScrapeFailureReason {
+  if (error instanceof Error && error.name === "TimeoutError") return 'timeout';
+
+  const message = error instanceof Error ? error.message : String(error);
+  const statusCode = (error as { statusCode?: unknown })?.statusCode;
+  const status = typeof statusCode === "number"
+    ? statusCode
+    : Number(message.match(/\b(?:HTTP|status)\s*(\d{3})\b/i)?.[1] ?? message.match(/^(\d{3})\b/)?.[1] ?? 0);
+
+  if (status === 429 || /rate.?limit|too many requests/i.test(message)) return 'rate-limited';
+  if ([401, 403, 451].includes(status) || /forbidden|access denied|captcha|blocked|unauthori[sz]ed/i.test(message)) return 'blocked';
+  if (/timed? ?out|ETIMEDOUT/i.test(message)) return 'timeout';
+  if (status >= 500 || /fetch failed|network|socket hang up|ECONNRESET|ECONNREFUSED|EAI_AGAIN/i.test(message)) return 'unavailable';
+  return 'failed';
+}
+
+const SCRAPERS: Record<ScraperName, Scraper> = {
+  hyperbrowser: hyperbrowserScraper,
+  native: nativeScraper,
+};
+
+// Most specific matching route wins ("docs.example.com" over "example.com")
+export function getScraperFor(url: string): Scraper {
+  const { scraper } = getConfig();
+  const route = Object.keys(scraper.routes)
+    .filter(domain => matchesDomain(url, domain))
+    .sort((a, b) => b.length - a.length)[0];
+  const name = route
+    ? scraper.routes[route]
+    : (process.env.SCRAPER as ScraperName | undefined) || scraper.default;
+
+  const backend = SCRAPERS[name];
+  if (!backend) {
+    throw new Error(`Unknown scraper "${name}" (expected hyperbrowser or native)`);
+  }
+  return backend;
+}
+
+/**
+ * Scrapes one page with its routed backend.
+ * Each attempt gets its own timeout; timeouts, rate limits and server errors
+ * are retried with exponential backoff and jitter. Failures are returned (not
+ * thrown) with a classified `failureReason`; only cancellation throws.
+ */
+export async function scrapeUrl(
+  url: string,
+  options: ScrapeOptions = {}
+): Promise<ScrapedContent> {
+  const { timeout, retries, signal } = { ...DEFAULT_CONFIG, ...options };
+  const crawledAt = new Date().toISOString();
+  const backend = getScraperFor(url);
+
+  const failure = (reason: ScrapeFailureReason, detail: string): ScrapedContent => ({
+    url,
+    markdown: "",
+    success: false,
+    error: `${reason}: ${detail}`,
+    failureReason: reason,
+    scraper: backend.name,
+    crawledAt,
+  });
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      // Billed per request sent, whether it succeeds, times out or is rate limited.
+      // Recorded before waiting for the host so the pool's budget check sees it
+      if (backend.billable) {
+        options.ledger?.recordScrape();
+      }
+      // The timeout starts once the host has a free slot
+      const { markdown, canonicalUrl } = await withHostSlot(url, () => {
+        const attemptSignal = signal
+          ? AbortSignal.any([signal, AbortSignal.timeout(timeout)])
+          : AbortSignal.timeout(timeout);
+        return backend.scrape(url, attemptSignal);
+      }, signal);
+
+      if (markdown.trim().length === 0) {
+        console.log(`[Scraper] ${backend.name} ${url}: empty page`);
+        return failure('empty', "no content extracted");
+      }
+
+      // Calculate paywall score using intelligent detection
+      const paywall = detectPaywall(markdown, url);
+      const isPaywalled = paywall.isPaywalled;
+
+      console.log(`[Scraper] ${backend.name} ${url}:`, {
+        contentLength: markdown.length,
+        paywallScore: paywall.score,
+        isPaywalled,
+        attempts: attempt + 1,
+        success: !isPaywalled
+      });
+
+      return {
+        url,
+        markdown,
+        success: !isPaywalled,
+        isPaywalled,
+        paywall,
+        scraper: backend.name,
+        crawledAt,
+        ...(canonicalUrl && urlKey(canonicalUrl) !== urlKey(url) ? { canonicalUrl } : {}),
+      };
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+
+      const reason = classifyScrapeError(error);
+      const detail = reason === 'timeout' && error instanceof Error && error.name === "TimeoutError"
+        ? `no response after ${timeout / 1000}s`
+        : error instanceof Error ? error.message : "Unknown error";
+
+      if (!RETRYABLE.includes(reason) || attempt >= retries) {
+        console.error(`[Scraper] Failed to scrape ${url} (${backend.name}, ${attempt + 1} attempt${attempt ? "s" : ""}): ${reason}: ${detail}`);
+        return failure(reason, detail);
+      }
+      if (backend.billable && options.budget && options.budget.remainingScrapes() <= 0) {
+        console.warn(`[Scraper] ${reason} on ${url}, not retrying: scrape budget reached`);
+        return failure(reason, detail);
+      }
+
+      const delay = backoffDelay(attempt);
+      console.warn(`[Scraper] ${reason} on ${url}, retrying in ${Math.round(delay)}ms (attempt ${attempt + 2}/${retries + 1})`);
+      await sleep(delay, signal);
+    }
+  }
+}
+
+// "2 rate-limited, 1 timeout"
+export function summarizeFailures(failed: ScrapedContent[]): string {
+  const counts = new Map<ScrapeFailureReason, number>();
+  failed.forEach(r => counts.set(r.failureReason ?? 'failed', (counts.get(r.failureReason ?? 'failed') ?? 0) + 1));
+  return Array.from(counts, ([reason, count]) => `${count} ${reason}`).join(", ");
+}
+
+/**
+ * Scrapes URLs through a fixed-size worker pool: a slow page only holds its
+ * own slot. scrapeUrl records each billable attempt before it is sent, so
+ * pages in flight and their retries already count against the budget, and
+ * the pool never starts more than the budget allows.
+ * Throws when no page succeeds (unless paywalled pages can stand in).
+ */
+export async function scrapeUrls(
+  urls: string[],
+  options: ScrapeOptions = {}
+): Promise<ScrapedContent[]> {
+  const { concurrency } = { ...DEFAULT_CONFIG, ...options };
+  const settled: (ScrapedContent | undefined)[] = new Array(urls.length);
+  const overBudget: string[] = [];
+  let next = 0;
+
+  console.log(`[scrapeUrls] Scraping ${urls.length} URLs with concurrency ${concurrency}`);
+
+  const worker = async () => {
+    while (next < urls.length) {
+      options.signal?.throwIfAborted();
+      const index = next++;
+      const url = urls[index];
+
+      // Only billable backends draw on the scrape budget
+      if (getScraperFor(url).billable && (options.budget?.remainingScrapes() ?? Infinity) <= 0) {
+        overBudget.push(url);
+        continue;
+      }
+
+      const result = await scrapeUrl(url, options);
+      console.log(`[scrapeUrls] Result for ${result.url}: success=${result.success}, isPaywalled=${result.isPaywalled}, length=${result.markdown.length}${result.error ? ', error='+result.error : ''}`);
+      settled[index] = result;
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, urls.length) }, worker));
+
+  if (overBudget.length > 0) {
+    console.warn(`[scrapeUrls] Scrape budget reached, skipped ${overBudget.length} URLs`);
+  }
+
+  const results = settled.filter((r): r is ScrapedContent => r !== undefined);
+
+  // Filter out failed scrapes but keep at least some content
+  const successfulResults = results.filter((r) => r.success && r.markdown.length > 0);
+  const paywalledResults = results.filter((r) => r.isPaywalled);
+  const failedResults = results.filter((r) => !r.success && !r.isPaywalled);
+
+  console.log(`[scrapeUrls] Summary: ${successfulResults.length} successful, ${paywalledResults.length} paywalled, ${failedResults.length} failed`);
+
+  if (failedResults.length > 0) {
+    console.log(`[scrapeUrls] Failed URLs:`, failedResults.map(r => ({ url: r.url, error: r.error })));
+    failedResults.forEach(r => options.onFailed?.(r));
+  }
+
+  if (successfulResults.length === 0) {
+    // FALLBACK: Use paywalled content if it has substantial content
+    const substantialPaywalledResults = paywalledResults.filter(
+      r => r.markdown.length >= SUBSTANTIAL_CONTENT_LENGTH && !r.error
+    );
+
+    if (substantialPaywalledResults.length > 0) {
+      console.warn(`[scrapeUrls] All URLs flagged as paywalled, using ${substantialPaywalledResults.length} with substantial content (>=${SUBSTANTIAL_CONTENT_LENGTH} chars)`);
+
+      return substantialPaywalledResults.map(r => ({
+        ...r,
+        success: true,
+        isPaywalled: true,
+        fallbackUsed: true,
+      }));
+    }
+
+    throw new Error(
+      `Failed to scrape any URLs successfully. All ${results.length} URLs failed or were paywalled` +
+      (failedResults.length > 0 ? ` (${summarizeFailures(failedResults)}).` : ".")
+    );
+  }
+
+  return [...successfulResults, ...paywalledResults];
+}
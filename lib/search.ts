@@ -0,0 +1,180 @@
+// Web search behind a pluggable provider
+// The provider is chosen in skills.config.json ("search.provider") or with the
+// SEARCH_PROVIDER env var; every provider returns the same SearchResult shape.
+
+import { SearchQueryKind, SearchResult } from "@/types";
+import { urlKey } from "./canonical-url";
+import { getConfig } from "./config";
+import { CostLedger } from "./cost";
+import { ResolvedDomainRules, domainWeight, isBlocked, isPreferred, resolveDomainRules } from "./domains";
+import { serperProvider } from "./serper";
+import { createSearxngProvider } from "./searxng";
+import { createFixtureProvider } from "./fixture-search";
+
+// Results we ask providers for, before filtering
+export const SEARCH_RESULT_COUNT = 15;
+// Per derived query; the merged list is capped at MAX_MERGED_RESULTS
+const EXPANDED_RESULT_COUNT = 8;
+const MAX_MERGED_RESULTS = 20;
+
+export interface SearchOptions {
+  signal?: AbortSignal;   // Aborts the request when the client disconnects
+  ledger?: CostLedger;    // Records the call when the provider is billable
+  domains?: ResolvedDomainRules;        // Default: the deployment's rules
+  onBlocked?: (url: string) => void;    // Called for each result dropped as blocked
+}
+
+export interface SearchProvider {
+  name: string;
+  billable: boolean;      // Priced with rates.search in the cost ledger
+  // Raw results (up to `count`); errors propagate and are wrapped by searchWeb
+  search(query: string, count: number, signal?: AbortSignal): Promise<SearchResult[]>;
+}
+
+export type SearchProviderName = 'serper' | 'searxng' | 'fixture';
+
+let provider: SearchProvider | null = null;
+
+export function getSearchProvider(): SearchProvider {
+  if (!provider) {
+    const { search } = getConfig();
+    const name = (process.env.SEARCH_PROVIDER as SearchProviderName | undefined) || search.provider;
+
+    switch (name) {
+      case 'serper':
+        provider = serperProvider;
+        break;
+      case 'searxng':
+        provider = createSearxngProvider(process.env.SEARXNG_URL || search.searxngUrl);
+        break;
+      case 'fixture':
+        provider = createFixtureProvider(process.env.SEARCH_FIXTURE_PATH || search.fixturePath);
+        break;
+      default:
+        throw new Error(`Unknown search provider "${name}" (expected serper, searxng or fixture)`);
+    }
+    console.log(`[Search] Using ${provider.name} provider`);
+  }
+  return provider;
+}
+
+export interface SearchQuery {
+  kind: SearchQueryKind;
+  query: string;
+}
+
+// One topic becomes several targeted queries; 'general' is the plain topic search
+export function buildSearchQueries(topic: string): SearchQuery[] {
+  return [
+    { kind: 'general', query: topic },
+    { kind: 'docs', query: `${topic} official documentation` },
+    { kind: 'api', query: `${topic} API reference` },
+    { kind: 'errors', query: `${topic} common errors troubleshooting` },
+    { kind: 'changelog', query: `${topic} migration guide changelog` },
+    { kind: 'github', query: `${topic} github repository` },
+  ];
+}
+
+// Preferred domains first, then by trust weight; provider order breaks ties
+function sortByTrust(results: SearchResult[], domains: ResolvedDomainRules): SearchResult[] {
+  return results
+    .map((result, position) => ({
+      result,
+      position,
+      preferred: isPreferred(result.link, domains),
+      weight: domainWeight(result.link, domains),
+    }))
+    .sort((a, b) => Number(b.preferred) - Number(a.preferred) || b.weight - a.weight || a.position - b.position)
+    .map(({ result }) => result);
+}
+
+export async function searchWeb(
+  query: string,
+  options: SearchOptions & { count?: number } = {}
+): Promise<SearchResult[]> {
+  const searchProvider = getSearchProvider();
+
+  try {
+    const results = await searchProvider.search(query, options.count ?? SEARCH_RESULT_COUNT, options.signal);
+    if (searchProvider.billable) {
+      options.ledger?.recordSearch();
+    }
+
+    if (results.length === 0) {
+      throw new Error("No search results found");
+    }
+
+    const domains = options.domains ?? resolveDomainRules();
+    const filtered = results.filter(result => {
+      if (!isBlocked(result.link, domains)) return true;
+      options.onBlocked?.(result.link);
+      return false;
+    });
+
+    return sortByTrust(filtered, domains).slice(0, options.count ?? SEARCH_RESULT_COUNT);
+  } catch (error) {
+    // Cancellation is not a search failure - let it propagate untouched
+    if (options.signal?.aborted) {
+      throw error;
+    }
+    if (error instanceof Error) {
+      throw new Error(`Failed to search web: ${error.message}`);
+    }
+    throw new Error("Failed to search web: Unknown error");
+  }
+}
+
+/**
+ * Runs every expanded query in parallel and merges the results, deduped by
+ * URL. Each result lists the queries that returned it (`queries`). Preferred
+ * and trusted domains come first, then results found by more queries, then
+ * by best position in any query.
+ * Individual query failures are tolerated as long as one query succeeds.
+ */
+export async function searchExpanded(
+  queries: SearchQuery[],
+  options: SearchOptions = {}
+): Promise<SearchResult[]> {
+  const settled = await Promise.allSettled(
+    queries.map(({ query }) => searchWeb(query, { ...options, count: EXPANDED_RESULT_COUNT }))
+  );
+  options.signal?.throwIfAborted();
+
+  const merged = new Map<string, { result: SearchResult; bestPosition: number }>();
+  const failures: string[] = [];
+
+  settled.forEach((outcome, index) => {
+    const { kind } = queries[index];
+    if (outcome.status === 'rejected') {
+      failures.push(`${kind}: ${outcome.reason instanceof Error ? outcome.reason.message : outcome.reason}`);
+      return;
+    }
+    outcome.value.forEach((result, position) => {
+      const key = urlKey(result.link);
+      const existing = merged.get(key);
+      if (existing) {
+        existing.result.queries = [...(existing.result.queries ?? []), kind];
+        existing.bestPosition = Math.min(existing.bestPosition, position);
+      } else {
+        merged.set(key, { result: { ...result, queries: [kind] }, bestPosition: position });
+      }
+    });
+  });
+
+  if (failures.length > 0) {
+    console.warn(`[Search] ${failures.length}/${queries.length} queries failed:`, failures);
+  }
+  if (failures.length === queries.length) {
+    throw new Error(`All ${queries.length} search queries failed (${failures[0]})`);
+  }
+
+  const byAgreement = Array.from(merged.values())
+    .sort((a, b) =>
+      (b.result.queries?.length ?? 0) - (a.result.queries?.length ?? 0) || a.bestPosition - b.bestPosition
+    )
+    .map(({ result }) => result);
+  const results = sortByTrust(byAgreement, options.domains ?? resolveDomainRules()).slice(0, MAX_MERGED_RESULTS);
+
+  console.log(`[Search] ${queries.length} queries → ${results.length} unique results`);
+  return results;
+}
@@ -0,0 +1,38 @@
+import { SearchResult } from "@/types";
+import type { SearchProvider } from "./search";
+
+// Self-hosted SearXNG (or any server speaking its JSON API).
+// The instance must have the "json" format enabled in settings.yml.
+export function createSearxngProvider(baseUrl?: string): SearchProvider {
+  if (!baseUrl) {
+    throw new Error("SearXNG search requires search.searxngUrl in skills.config.json or SEARXNG_URL");
+  }
+
+  return {
+    name: "searxng",
+    billable: false,
+
+    async search(query: string, count: number, signal?: AbortSignal): Promise<SearchResult[]> {
+      const url = new URL("/search", baseUrl);
+      url.searchParams.set("q", query);
+      url.searchParams.set("format", "json");
+
+      const response = await fetch(url, {
+        headers: { Accept: "application/json" },
+        signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`SearXNG error: ${response.status} ${response.statusText}`);
+      }
+
+      const data: { results?: { title?: string; url: string; content?: string }[] } = await response.json();
+
+      return (data.results ?? []).slice(0, count).map(result => ({
+        title: result.title || result.url,
+        link: result.url,
+        snippet: result.content || "",
+      }));
+    },
+  };
+}
@@ -0,0 +1,46 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { isSameSite, parseSitemap } from "./sitemap";
+
+test("parseSitemap reads urlset entries with their lastmod", () => {
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">
+  <url>
+    <loc>https://acme.dev/docs/intro</loc>
+    <lastmod>2026-01-15</lastmod>
+    <image:image><image:loc>https://acme.dev/logo.png</image:loc></image:image>
+  </url>
+  <url><loc><![CDATA[https://acme.dev/docs/search?q=a&page=2]]></loc></url>
+  <url><loc>https://acme.dev/docs/api?lang=en&amp;v=2</loc></url>
+  <url><lastmod>2026-01-01</lastmod></url>
+</urlset>`;
+
+  assert.deepEqual(parseSitemap(xml), {
+    sitemaps: [],
+    entries: [
+      { url: "https://acme.dev/docs/intro", lastmod: "2026-01-15" },
+      { url: "https://acme.dev/docs/search?q=a&page=2", lastmod: undefined },
+      { url: "https://acme.dev/docs/api?lang=en&v=2", lastmod: undefined },
+    ],
+  });
+});
+
+test("parseSitemap reads the children of a sitemap index", () => {
+  const xml = `<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap><loc>https://acme.dev/sitemap-docs.xml.gz</loc><lastmod>2026-02-01</lastmod></sitemap>
+  <sitemap><loc>https://acme.dev/sitemap-blog.xml</loc></sitemap>
+</sitemapindex>`;
+
+  assert.deepEqual(parseSitemap(xml), {
+    sitemaps: ["https://acme.dev/sitemap-docs.xml.gz", "https://acme.dev/sitemap-blog.xml"],
+    entries: [],
+  });
+});
+
+test("isSameSite ignores the scheme and www.", () => {
+  assert.equal(isSameSite("https://www.example.com/docs", "https://example.com"), true);
+  assert.equal(isSameSite("http://example.com/docs", "https://www.example.com"), true);
+  assert.equal(isSameSite("https://docs.example.com/a", "https://example.com"), false);
+  assert.equal(isSameSite("https://example.com:8443/a", "https://example.com"), false);
+  assert.equal(isSameSite("not a url", "https://example.com"), false);
+});
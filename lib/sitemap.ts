@@ -0,0 +1,160 @@
+// Sitemap discovery for the crawler
+// Sitemaps come from robots.txt "Sitemap:" lines, else /sitemap.xml. Sitemap
+// indexes are followed (docs-looking children first), gzipped sitemaps are
+// inflated, and entries are limited to the origin's site (either scheme, with
+// or without "www.") and to recently modified pages. Ranking by path
+// relevance is left to the crawler.
+
+import { gunzipSync } from "zlib";
+import { politeFetch } from "./politeness";
+import { getRobotsRules } from "./robots";
+
+const SITEMAP_TIMEOUT = 10000;
+const MAX_SITEMAP_SIZE = 10 * 1024 * 1024;  // The protocol's own limit (uncompressed)
+const MAX_INDEX_DEPTH = 2;
+const MAX_CHILD_SITEMAPS = 5;
+// Pages not modified in this long are dropped (entries without lastmod are kept)
+const MAX_ENTRY_AGE_DAYS = 3 * 365;
+
+export interface SitemapEntry {
+  url: string;
+  lastmod?: string;     // ISO date, when the sitemap gives one
+}
+
+export interface SitemapDiscovery {
+  origin: string;
+  sitemaps: string[];   // Sitemap files actually read
+  entries: SitemapEntry[];
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+// <tag>value</tag> inside each <block>...</block>; namespaced tags ("image:loc") are ignored
+function readBlocks(xml: string, block: string): Record<string, string>[] {
+  const blocks: Record<string, string>[] = [];
+  const blockPattern = new RegExp(`<${block}\\b[^>]*>([\\s\\S]*?)</${block}>`, "gi");
+  let match;
+  while ((match = blockPattern.exec(xml)) !== null) {
+    const fields: Record<string, string> = {};
+    const fieldPattern = /<([a-z]+)>([\s\S]*?)<\/\1>/gi;
+    let field;
+    while ((field = fieldPattern.exec(match[1])) !== null) {
+      fields[field[1].toLowerCase()] = decodeXml(field[2]);
+    }
+    blocks.push(fields);
+  }
+  return blocks;
+}
+
+export function parseSitemap(xml: string): { sitemaps: string[]; entries: SitemapEntry[] } {
+  return {
+    sitemaps: readBlocks(xml, "sitemap").map(fields => fields.loc).filter(Boolean),
+    entries: readBlocks(xml, "url")
+      .filter(fields => fields.loc)
+      .map(fields => ({ url: fields.loc, lastmod: fields.lastmod || undefined })),
+  };
+}
+
+async function fetchSitemap(url: string, signal?: AbortSignal): Promise<string | null> {
+  try {
+    const response = await politeFetch(url, {
+      accept: "application/xml, text/xml;q=0.9, */*;q=0.5",
+      timeout: SITEMAP_TIMEOUT,
+      signal,
+    });
+    if (!response?.ok) return null;
+
+    // Content-Encoding is undone by fetch; a .gz file is not
+    const buffer = Buffer.from(await response.arrayBuffer());
+    const isGzip = buffer[0] === 0x1f && buffer[1] === 0x8b;
+    const xml = (isGzip ? gunzipSync(buffer, { maxOutputLength: MAX_SITEMAP_SIZE }) : buffer)
+      .subarray(0, MAX_SITEMAP_SIZE)
+      .toString("utf-8");
+
+    // Sites without a sitemap often answer with their HTML app shell
+    return /<(urlset|sitemapindex)\b/i.test(xml) ? xml : null;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.warn(`[Sitemap] Could not read ${url}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+// Host without "www.": sitemaps often list the other spelling of the seed's host
+function siteHost(url: string): string {
+  return new URL(url).host.replace(/^www\./, "");
+}
+
+// Same site as the origin, over either scheme and with or without "www."
+export function isSameSite(url: string, origin: string): boolean {
+  try {
+    return siteHost(url) === siteHost(origin);
+  } catch {
+    return false;
+  }
+}
+
+function isRecent(entry: SitemapEntry, now: number): boolean {
+  if (!entry.lastmod) return true;
+  const modified = Date.parse(entry.lastmod);
+  return Number.isNaN(modified) || now - modified <= MAX_ENTRY_AGE_DAYS * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Reads an origin's sitemaps and returns its page entries, newest first
+ * (undated entries last). Returns null when the origin publishes no readable
+ * sitemap, so the caller can fall back to link extraction.
+ */
+export async function discoverSitemap(
+  origin: string,
+  topic: string,
+  signal?: AbortSignal
+): Promise<SitemapDiscovery | null> {
+  const { sitemaps: declared } = await getRobotsRules(origin);
+  const topicTokens = topic.toLowerCase().split(/\W+/).filter(token => token.length > 2);
+  // Children of an index that look like docs (or the topic) are read first
+  const childPriority = (url: string) =>
+    Number(/doc|guide|api|reference|learn/i.test(url)) + topicTokens.filter(token => url.toLowerCase().includes(token)).length;
+
+  const read: string[] = [];
+  const entries: SitemapEntry[] = [];
+  let queue = declared.length > 0 ? declared : [`${origin}/sitemap.xml`];
+
+  for (let depth = 0; depth <= MAX_INDEX_DEPTH && queue.length > 0; depth++) {
+    const next: string[] = [];
+    for (const url of queue.slice(0, MAX_CHILD_SITEMAPS)) {
+      if (read.includes(url)) continue;
+      const xml = await fetchSitemap(url, signal);
+      if (!xml) continue;
+
+      read.push(url);
+      const parsed = parseSitemap(xml);
+      entries.push(...parsed.entries);
+      next.push(...parsed.sitemaps);
+    }
+    queue = next.sort((a, b) => childPriority(b) - childPriority(a));
+  }
+
+  if (read.length === 0) {
+    return null;
+  }
+
+  const now = Date.now();
+  const seen = new Set<string>();
+  const kept = entries
+    .filter(entry => isSameSite(entry.url, origin) && isRecent(entry, now))
+    .filter(entry => !seen.has(entry.url) && seen.add(entry.url))
+    .sort((a, b) => (b.lastmod ? Date.parse(b.lastmod) || 0 : -1) - (a.lastmod ? Date.parse(a.lastmod) || 0 : -1));
+
+  console.log(`[Sitemap] ${origin}: ${kept.length}/${entries.length} entries from ${read.length} sitemap(s)`);
+  return { origin, sitemaps: read, entries: kept };
+}
@@ -0,0 +1,54 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseSSEMessage, readEventStream } from "./sse-client";
+import { formatSSE, SSE_PROTOCOL_VERSION } from "./sse";
+import { GenerationEvent } from "@/types";
+
+const progress: GenerationEvent = { type: 'progress', phase: 'searching', message: "Searching", progress: 10 };
+const complete: GenerationEvent = { type: 'complete', message: "Done", content: "# Skill", metadata: {} as never };
+
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+async function collect(body: ReadableStream<Uint8Array>) {
+  const received = [];
+  for await (const message of readEventStream(body)) received.push(message);
+  return received;
+}
+
+test("parseSSEMessage decodes what formatSSE encodes", () => {
+  const received = parseSSEMessage(formatSSE(progress, 7).trim());
+  assert.equal(received?.id, 7);
+  assert.deepEqual(received?.event, { v: SSE_PROTOCOL_VERSION, ...progress });
+});
+
+test("parseSSEMessage joins multi-line data and tolerates CRLF", () => {
+  const raw = 'event: warning\r\ndata: {"v":1,"type":"warning",\r\ndata: "message":"slow"}';
+  assert.deepEqual(parseSSEMessage(raw)?.event, { v: 1, type: 'warning', message: "slow" });
+});
+
+test("parseSSEMessage skips comments, unknown types, newer versions and bad JSON", () => {
+  assert.equal(parseSSEMessage(": keep-alive"), null);
+  assert.equal(parseSSEMessage('event: telemetry\ndata: {"v":1,"type":"telemetry"}'), null);
+  assert.equal(parseSSEMessage(`data: {"v":${SSE_PROTOCOL_VERSION + 1},"type":"warning","message":"x"}`), null);
+  assert.equal(parseSSEMessage('event: warning\ndata: {"v":1,"type":"progress"}'), null);
+  assert.equal(parseSSEMessage("data: {not json"), null);
+});
+
+test("readEventStream reassembles messages split across chunks", async () => {
+  const wire = formatSSE(progress, 1) + formatSSE(complete, 2);
+  const received = await collect(streamOf(wire.slice(0, 20), wire.slice(20, 90), wire.slice(90)));
+  assert.deepEqual(received.map(r => [r.id, r.event.type]), [[1, 'progress'], [2, 'complete']]);
+});
+
+test("readEventStream stops after the terminal event", async () => {
+  const received = await collect(streamOf(formatSSE(complete), formatSSE(progress)));
+  assert.deepEqual(received.map(r => r.event.type), ['complete']);
+});
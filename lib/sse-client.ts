@@ -0,0 +1,119 @@
+// Client-side decoder for the generation event stream
+// Works in the browser and in Node scripts (test-integration.ts): give it a
+// fetch() response body and iterate typed events.
+
+import { isTerminalEvent, SSE_PROTOCOL_VERSION } from "./sse";
+import { GenerationEvent, GenerationEventPayload, GenerationEventType } from "@/types";
+
+const KNOWN_EVENT_TYPES: GenerationEventType[] = [
+  'progress',
+  'source-discovered',
+  'warning',
+  'partial-content',
+  'analysis-ready',
+  'complete',
+  'error',
+];
+
+export interface ReceivedEvent {
+  id?: number;            // Present on replayable streams (job events)
+  event: GenerationEvent;
+}
+
+/**
+ * Parses one raw SSE message block (lines up to the blank separator).
+ * Returns null for comments, keep-alives, unknown event types and payloads
+ * from a newer major protocol version, so old clients degrade gracefully.
+ */
+export function parseSSEMessage(raw: string): ReceivedEvent | null {
+  let eventName: string | undefined;
+  let id: number | undefined;
+  const dataLines: string[] = [];
+
+  for (const line of raw.split(/\r?\n/)) {
+    if (!line || line.startsWith(':')) continue;
+
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    // Per the SSE spec, a single space after the colon is not part of the value
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+    if (field === 'event') eventName = value;
+    else if (field === 'data') dataLines.push(value);
+    else if (field === 'id') {
+      const parsed = Number.parseInt(value, 10);
+      if (Number.isFinite(parsed)) id = parsed;
+    }
+  }
+
+  if (dataLines.length === 0) return null;
+
+  let payload: GenerationEventPayload;
+  try {
+    payload = JSON.parse(dataLines.join('\n'));
+  } catch (error) {
+    console.error(`[SSE] Failed to parse event data (${dataLines.join('').length} chars):`, error);
+    return null;
+  }
+
+  if (typeof payload.v !== 'number' || payload.v > SSE_PROTOCOL_VERSION) {
+    console.warn(`[SSE] Unsupported protocol version ${payload.v} (client speaks ${SSE_PROTOCOL_VERSION})`);
+    return null;
+  }
+
+  const type = eventName ?? payload.type;
+  if (!KNOWN_EVENT_TYPES.includes(type as GenerationEventType) || payload.type !== type) {
+    console.warn(`[SSE] Ignoring unknown event type: ${type}`);
+    return null;
+  }
+
+  return { id, event: payload };
+}
+
+/**
+ * Reads a generation event stream until it ends, the signal aborts, or a
+ * terminal (complete/error) event has been yielded.
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch('/api/generate', { method: 'POST', ... });
+ * for await (const { event } of readEventStream(response.body!)) {
+ *   if (event.type === 'progress') console.log(event.message);
+ * }
+ * ```
+ */
+export async function* readEventStream(
+  body: ReadableStream<Uint8Array>,
+  signal?: AbortSignal
+): AsyncGenerator<ReceivedEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (!signal?.aborted) {
+      const { done, value } = await reader.read();
+
+      if (value) {
+        buffer += decoder.decode(value, { stream: !done });
+      }
+
+      // Messages are separated by a blank line; keep the incomplete tail buffered
+      const messages = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? "" : messages.pop() || "";
+
+      for (const message of messages) {
+        if (!message.trim()) continue;
+        const received = parseSSEMessage(message);
+        if (!received) continue;
+
+        yield received;
+        if (isTerminalEvent(received.event)) return;
+      }
+
+      if (done) return;
+    }
+  } finally {
+    await reader.cancel().catch(() => {});
+  }
+}
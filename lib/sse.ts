@@ -0,0 +1,27 @@
+// Server-Sent Events helpers shared by the streaming routes
+// The event schema lives in types/index.ts (GenerationEvent); this module owns
+// the wire format and its version. Decode with lib/sse-client.ts.
+
+import { GenerationEvent, GenerationEventPayload } from "@/types";
+
+// Bump when a payload changes incompatibly (renamed/removed fields, new semantics)
+export const SSE_PROTOCOL_VERSION = 1;
+
+export const SSE_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache",
+  Connection: "keep-alive",
+  "X-Event-Protocol-Version": String(SSE_PROTOCOL_VERSION),
+};
+
+// Encode one event as a named SSE message; `id` lets clients resume with Last-Event-ID
+export function formatSSE(event: GenerationEvent, id?: number): string {
+  const payload: GenerationEventPayload = { v: SSE_PROTOCOL_VERSION, ...event };
+  const idLine = id !== undefined ? `id: ${id}\n` : "";
+  return `event: ${event.type}\n${idLine}data: ${JSON.stringify(payload)}\n\n`;
+}
+
+// Every stream ends with exactly one complete or error event
+export function isTerminalEvent(event: GenerationEvent): boolean {
+  return event.type === 'complete' || event.type === 'error';
+}
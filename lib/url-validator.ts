@@ -1,13 +1,18 @@
 // URL validation module for checking link accessibility before crawling
-// Performs HEAD requests with timeout, redirect following, and caching
+// Performs HEAD requests with timeout, redirect following, and caching.
+// Honours robots.txt and shares per-host pacing with the scrapers.
 
 import { ValidationResult } from "@/types";
+import { getUserAgent, withHostSlot } from "./politeness";
+import { isAllowedByRobots } from "./robots";
+import { canonicalizeUrl } from "./canonical-url";
 
 export interface ValidationOptions {
   concurrency?: number;   // Default: 10
   timeout?: number;       // Default: 5000ms
   maxRedirects?: number;  // Default: 3
   retries?: number;       // Default: 1
+  signal?: AbortSignal;   // Cancels pending checks (e.g. client disconnected)
 }
 
 // Default configuration
@@ -18,7 +23,7 @@ const DEFAULT_CONFIG = {
   retries: 1,
 };
 
-// In-memory cache with 5-minute TTL
+// In-memory cache with 5-minute TTL, keyed by canonical URL
 const MAX_CACHE_SIZE = 1000;
 const validationCache = new Map<string, { result: ValidationResult; expiresAt: number }>();
 const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
@@ -35,11 +40,13 @@ function cleanCache(): void {
 
 // Get from cache if not expired
 function getCached(url: string): ValidationResult | null {
-  const cached = validationCache.get(url);
+  const key = canonicalizeUrl(url);
+  const cached = validationCache.get(key);
   if (cached && cached.expiresAt > Date.now()) {
-    return cached.result;
+    // Another spelling of the URL may have been checked
+    return { ...cached.result, url };
   }
-  validationCache.delete(url);
+  validationCache.delete(key);
   return null;
 }
 
@@ -58,7 +65,7 @@ function setCache(url: string, result: ValidationResult): void {
     }
   }
 
-  validationCache.set(url, {
+  validationCache.set(canonicalizeUrl(url), {
     result,
     expiresAt: Date.now() + CACHE_TTL,
   });
@@ -76,6 +83,7 @@ function setCache(url: string, result: ValidationResult): void {
  * @param options.timeout - Request timeout in milliseconds (default: 5000)
  * @param options.maxRedirects - Maximum redirect hops to follow (default: 3)
  * @param options.retries - Number of retry attempts for transient failures (default: 1)
+ * @param options.signal - Aborts the check; rejects with the abort reason instead of returning a result
  *
  * @returns Promise resolving to ValidationResult with:
  *  - valid: true if 2xx status code received
@@ -98,7 +106,9 @@ export async function validateUrl(
   url: string,
   options: ValidationOptions = {}
 ): Promise<ValidationResult> {
-  const { timeout, maxRedirects, retries } = { ...DEFAULT_CONFIG, ...options };
+  const { timeout, maxRedirects, retries, signal } = { ...DEFAULT_CONFIG, ...options };
+
+  signal?.throwIfAborted();
 
   // Check cache first
   const cached = getCached(url);
@@ -106,48 +116,60 @@ export async function validateUrl(
     return cached;
   }
 
+  // Disallowed pages are never requested; reported apart from broken URLs
+  if (!(await isAllowedByRobots(url, signal))) {
+    const result: ValidationResult = {
+      url,
+      valid: false,
+      status: 0,
+      error: 'Disallowed by robots.txt',
+      robotsDisallowed: true,
+      checkedAt: Date.now(),
+    };
+    setCache(url, result);
+    return result;
+  }
+
   let lastError: string | undefined;
 
   // Retry logic
   for (let attempt = 0; attempt <= retries; attempt++) {
     try {
       const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-      let response = await fetch(url, {
-        method: 'HEAD',
-        redirect: 'manual', // Handle redirects manually
-        signal: controller.signal,
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; SkillsGenerator/1.0; +URL validation)',
-        },
-      });
-
-      clearTimeout(timeoutId);
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+      // The timeout starts once the host has a free slot
+      let response = await withHostSlot(url, () => {
+        timeoutId = setTimeout(() => controller.abort(), timeout);
+        return fetch(url, {
+          method: 'HEAD',
+          redirect: 'manual', // Handle redirects manually
+          signal: signal ? AbortSignal.any([controller.signal, signal]) : controller.signal,
+          headers: {
+            'User-Agent': getUserAgent(),
+          },
+        });
+      }, signal).finally(() => clearTimeout(timeoutId));
 
       // Fallback to GET on method not allowed
       if (response.status === 405 || response.status === 501) {
         console.log(`[Validator] HEAD not supported for ${url}, trying GET with range`);
 
         const getController = new AbortController();
-        const getTimeoutId = setTimeout(() => getController.abort(), timeout);
+        let getTimeoutId: ReturnType<typeof setTimeout> | undefined;
 
-        try {
-          response = await fetch(url, {
+        response = await withHostSlot(url, () => {
+          getTimeoutId = setTimeout(() => getController.abort(), timeout);
+          return fetch(url, {
             method: 'GET',
             redirect: 'manual',
-            signal: getController.signal,
+            signal: signal ? AbortSignal.any([getController.signal, signal]) : getController.signal,
             headers: {
-              'User-Agent': 'Mozilla/5.0 (compatible; SkillsGenerator/1.0; +URL validation)',
+              'User-Agent': getUserAgent(),
               'Range': 'bytes=0-0', // Request minimal data
             },
           });
-
-          clearTimeout(getTimeoutId);
-        } catch (error) {
-          clearTimeout(getTimeoutId);
-          throw error;
-        }
+        }, signal).finally(() => clearTimeout(getTimeoutId));
       }
 
       // Handle redirects
@@ -232,6 +254,11 @@ export async function validateUrl(
       return result;
 
     } catch (error) {
+      // Caller cancelled - propagate instead of caching a bogus failure
+      if (signal?.aborted) {
+        throw error;
+      }
+
       // Differentiate between expected network errors and unexpected programming errors
       if (error instanceof TypeError && error.message.includes('fetch')) {
         lastError = `Network error: ${error.message}`;
@@ -305,16 +332,20 @@ export async function validateUrls(
   console.log(`[Validator] Checking ${urls.length} URLs (${concurrency} concurrent)`);
   const startTime = Date.now();
 
-  // Process URLs in batches for concurrency control
-  const results: ValidationResult[] = [];
+  // Spelling variants of one URL are checked once
+  const uniqueUrls = [...new Set(urls.map(canonicalizeUrl))];
+  const checked = new Map<string, ValidationResult>();
 
-  for (let i = 0; i < urls.length; i += concurrency) {
-    const batch = urls.slice(i, i + concurrency);
+  // Process URLs in batches for concurrency control
+  for (let i = 0; i < uniqueUrls.length; i += concurrency) {
+    options.signal?.throwIfAborted();
+    const batch = uniqueUrls.slice(i, i + concurrency);
     const batchResults = await Promise.all(
       batch.map(url => validateUrl(url, options))
     );
-    results.push(...batchResults);
+    batchResults.forEach(result => checked.set(result.url, result));
   }
+  const results = urls.map(url => ({ ...checked.get(canonicalizeUrl(url))!, url }));
 
   const duration = Date.now() - startTime;
   const validCount = results.filter(r => r.valid).length;
@@ -0,0 +1,66 @@
+// Offline checks for the fixture-backed pipeline stages: search, GitHub
+// ingestion and registry lookup, run against fixtures/ with no API keys.
+// Run with: npm test (or npx tsx --test test-fixtures.ts)
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSearchQueries, searchExpanded, searchWeb } from './lib/search';
+import { ingestGitHubRepo } from './lib/github';
+import { packageToSource, resolvePackages } from './lib/registry';
+
+// Read by the first getConfig() call, which happens inside the tests
+process.env.SKILLS_CONFIG_PATH ||= 'fixtures/skills.config.json';
+
+test('fixture search returns the canned results for a known query', async () => {
+  const results = await searchWeb('Supabase  Auth');
+  assert.equal(results.length, 4);
+  assert.equal(results[0].link, 'https://supabase.com/docs/guides/auth');
+});
+
+test('fixture search falls back to "*" for unknown queries', async () => {
+  const results = await searchWeb('something else entirely');
+  assert.deepEqual(results.map(r => r.link), [
+    'https://developer.mozilla.org/en-US/docs/Web',
+    'https://nodejs.org/docs/latest/api/',
+  ]);
+});
+
+test('expanded search merges queries and records which ones hit', async () => {
+  const results = await searchExpanded(buildSearchQueries('supabase auth'));
+  const mdn = results.find(r => r.link === 'https://developer.mozilla.org/en-US/docs/Web');
+  assert.equal(results.length, 6);
+  assert.deepEqual(results.find(r => r.link === 'https://supabase.com/docs/guides/auth')?.queries, ['general']);
+  assert.equal(mdn?.queries?.length, 5);
+});
+
+test('GitHub ingestion reads the fixture repo file by file', async () => {
+  const entries = await ingestGitHubRepo('https://github.com/acme/widgets/tree/main');
+  assert.deepEqual(entries.map(e => `${e.repoFile?.kind}:${e.repoFile?.path}`), [
+    'readme:README.md',
+    'docs:docs/getting-started.md',
+    'docs:docs/api/widgets.md',
+    'example:examples/basic.ts',
+    'changelog:CHANGELOG.md',
+  ]);
+  assert.equal(entries[0].url, 'https://github.com/acme/widgets/blob/HEAD/README.md');
+  assert.ok(entries[3].markdown.startsWith('# examples/basic.ts\n\n```ts\n'));
+  assert.ok(entries.every(e => e.success));
+});
+
+test('registry lookup resolves packages named by install commands', async () => {
+  const sources = await ingestGitHubRepo('https://github.com/acme/widgets');
+  const packages = await resolvePackages('acme widgets', sources);
+  assert.deepEqual(packages.map(p => `${p.ecosystem}:${p.name}@${p.version}`), [
+    'npm:acme-widgets@2.0.0',
+    'pypi:acme-widgets@1.3.1',
+  ]);
+  assert.equal(packages[0].installCommand, 'npm install acme-widgets');
+
+  const [cliPackage] = await resolvePackages('acme widgets', sources, { cli: true });
+  assert.equal(cliPackage.installCommand, 'npm install -g acme-widgets');
+
+  const source = packageToSource(packages[0]);
+  assert.equal(source.url, 'https://www.npmjs.com/package/acme-widgets');
+  assert.ok(source.markdown.includes('- Peer dependencies: `react@>=18`'));
+  assert.ok(source.markdown.includes('- Executables: `acme`'));
+});
@@ -1,6 +1,9 @@
 // Integration test for URL validation in the full generation pipeline
 // Run with: npx tsx test-integration.ts
 
+import { readEventStream } from './lib/sse-client';
+import type { CompleteEvent } from './types';
+
 async function testGeneration() {
   console.log('Testing URL Validation Integration\n');
   console.log('Generating a skill to test the full pipeline...\n');
@@ -19,53 +22,30 @@ async function testGeneration() {
     throw new Error(`HTTP error! status: ${response.status}`);
   }
 
-  const reader = response.body?.getReader();
-  const decoder = new TextDecoder();
-
-  if (!reader) {
+  if (!response.body) {
     throw new Error('No response body');
   }
 
-  let buffer = '';
   let lastProgress = '';
-  let finalResult: any = null;
-
-  while (true) {
-    const { done, value } = await reader.read();
-
-    if (done) break;
-
-    buffer += decoder.decode(value, { stream: true });
-    const lines = buffer.split('\n');
-    buffer = lines.pop() || '';
-
-    for (const line of lines) {
-      if (!line.startsWith('data: ')) continue;
+  let finalResult: CompleteEvent | null = null;
 
-      const data = line.slice(6);
-      if (!data.trim()) continue;
-
-      try {
-        const event = JSON.parse(data);
+  for await (const { event } of readEventStream(response.body)) {
+    if (event.type === 'progress' && event.message !== lastProgress) {
+      console.log(`[${event.phase.toUpperCase()}] ${event.message} (${Math.round(event.progress)}%)`);
+      lastProgress = event.message;
+    }
 
-        if (event.phase && event.message) {
-          if (event.message !== lastProgress) {
-            console.log(`[${event.phase.toUpperCase()}] ${event.message} (${event.progress}%)`);
-            lastProgress = event.message;
-          }
-        }
+    if (event.type === 'warning') {
+      console.log(`  ⚠️  ${event.message}`);
+    }
 
-        if (event.error) {
-          console.error('\n❌ Error:', event.error);
-          return;
-        }
+    if (event.type === 'error') {
+      console.error('\n❌ Error:', event.message);
+      return;
+    }
 
-        if (event.phase === 'complete') {
-          finalResult = event;
-        }
-      } catch (e) {
-        // Ignore parse errors
-      }
+    if (event.type === 'complete') {
+      finalResult = event;
     }
   }
 
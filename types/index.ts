@@ -1,6 +1,50 @@
 export interface GenerateRequest {
   topic?: string;
-  url?: string;
+  url?: string;           // Single seed URL (kept for older clients; merged into urls)
+  urls?: string[];        // Seed URLs, crawled first and ranked ahead of search results
+  options?: GenerationOptions;
+}
+
+export type GenerationModel = 'opus' | 'sonnet';
+
+// Per-request overrides; omitted fields use the server defaults (bounds in lib/options.ts)
+export interface GenerationOptions {
+  maxSources?: number;        // Sources passed to generation (default: 10)
+  maxContentLength?: number;  // Characters kept per source (default: 2000)
+  maxPagesPerUrl?: number;    // Links followed per crawled page (default: 8)
+  maxCrawlPages?: number;     // Total pages the crawler may scrape (default: 25)
+  maxPagesPerOrigin?: number; // Pages scraped per site; doubled for the official docs (default: 12)
+  crawlDepth?: number;        // Link hops from the seeds; 0 = seed pages only (default: 2)
+  targetLines?: { min: number; max: number };  // SKILL.md length target (default: 500-800)
+  model?: GenerationModel;    // Model for the main generation pass (default: opus)
+  skipCache?: boolean;        // Ignore cached scrapes (fresh results are still cached)
+  budget?: BudgetLimits;      // Tightens the deployment's per-request budget (never loosens it)
+  reviewOutline?: boolean;    // Pause after pass 1 for outline approval (jobs API only)
+  domains?: DomainRules;      // Added on top of the deployment's domain rules
+}
+
+// Domain filtering and trust. A domain matches its subdomains too
+// ("example.com" covers "docs.example.com").
+export interface DomainRules {
+  blocked?: string[];                 // Dropped from search results and never selected
+  preferred?: string[];               // Ranked ahead of every non-seed source
+  weights?: Record<string, number>;   // Added to the ranking score (may be negative)
+}
+
+// Rules a generation actually ran under, and what they matched
+export interface AppliedDomainRules {
+  blocked: string[];
+  preferred: string[];
+  weights: Record<string, number>;
+  blockedUrls: string[];      // Search results and crawled pages dropped as blocked
+  preferredUrls: string[];    // Ranked sources that matched a preferred domain
+}
+
+// Spending caps; omitted fields are unlimited
+export interface BudgetLimits {
+  maxTokens?: number;         // Input + output tokens across all Anthropic calls
+  maxScrapes?: number;        // Hyperbrowser scrapes
+  maxDollars?: number;        // Total priced cost (USD)
 }
 
 export interface ValidationResult {
@@ -9,6 +53,7 @@ export interface ValidationResult {
   status: number;
   finalUrl?: string;
   error?: string;
+  robotsDisallowed?: boolean;  // Skipped without a request: robots.txt disallows it
   checkedAt: number;
 }
 
@@ -18,6 +63,7 @@ export interface ValidationMetadata {
   brokenUrls: number;
   redirectedUrls: number;
   timeoutUrls: number;
+  robotsDisallowedUrls: number;
 }
 
 export interface GenerateResponse {
@@ -34,20 +80,201 @@ export interface GenerateResponse {
   error?: string;
 }
 
+export interface GenerationMetadata {
+  topic: string;
+  scrapedCount: number;
+  totalUrls: number;
+  discoveredUrls: number;
+  topicType: string;
+  complexity: string;
+  usedCache: boolean;
+  seedCount: number;
+  paywalledCount: number;
+  totalChars: number;
+  validation?: ValidationMetadata;
+  cost: CostBreakdown;
+  budget: BudgetLimits;       // Effective per-request limits this generation ran under
+  domains: AppliedDomainRules;
+  officialDocs: OfficialDocs | null;
+  packages: PackageInfo[];    // Registry packages resolved for library/cli topics
+  docVersion: DocVersionSelection | null;  // null when no source was versioned
+  warnings: string[];
+  generatedAt: string;
+  duration: string;
+}
+
+// Tokens used by one Anthropic call (a generation pass or the classifier)
+export interface TokenUsageEntry {
+  label: string;          // e.g. "classification", "pass1", "pass2"
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;           // USD
+}
+
+export interface CostBreakdown {
+  currency: 'USD';
+  tokens: TokenUsageEntry[];
+  inputTokens: number;
+  outputTokens: number;
+  scrapes: { count: number; cost: number };
+  searches: { count: number; cost: number };
+  totalCost: number;
+}
+
+export interface GenerationResult {
+  content: string;
+  metadata: GenerationMetadata;
+}
+
+// Dry-run result (POST /api/plan): what generation would use, without generating
+export interface GenerationPlan {
+  topic: string;
+  seeds: string[];
+  usedCache: boolean;             // Crawl skipped, so validation is empty
+  searchResults: SearchResult[];
+  validation: ValidationResult[];
+  crawledPages: PlannedPage[];
+  rankedSources: PlannedSource[]; // Best first; the first maxSources are selected
+  maxSources: number;
+  classification: TopicClassification;
+  domains: AppliedDomainRules;
+  officialDocs: OfficialDocs | null;
+  packages: PackageInfo[];
+  docVersion: DocVersionSelection | null;
+  warnings: string[];
+  cost: CostBreakdown;            // Spent on the plan itself (search, scrapes, classification)
+  duration: string;
+}
+
+export interface PlannedPage {
+  url: string;
+  success: boolean;
+  isPaywalled: boolean;
+  paywall?: PaywallVerdict;
+  chars: number;
+  error?: string;
+}
+
+export interface PlannedSource {
+  url: string;
+  score: number;                  // rankSources quality score
+  isSeed: boolean;
+  isPreferred: boolean;           // Matched a preferred domain
+  isOfficial: boolean;            // On the official docs origin
+  queries?: SearchQueryKind[];
+  docVersion?: string;
+  versionMismatch?: boolean;
+  chars: number;
+  selected: boolean;
+}
+
+export type JobStatus = 'running' | 'awaiting-review' | 'completed' | 'failed' | 'cancelled';
+
+// Public view of a generation job (GET /api/jobs/:id)
+export interface JobSnapshot {
+  id: string;
+  status: JobStatus;
+  request: GenerateRequest;
+  createdAt: string;
+  updatedAt: string;
+  progress?: ProgressEvent;
+  lastEventId: number;
+  result?: GenerationResult;
+  error?: string;
+  pendingAnalysis?: AnalysisData;  // Set while awaiting review (POST it back to /analysis)
+}
+
 export interface SearchResult {
   title: string;
   link: string;
   snippet: string;
+  queries?: SearchQueryKind[];  // Provenance: which expanded queries returned it
 }
 
+// Derived search queries a topic fans out into (lib/search.ts)
+export type SearchQueryKind = 'general' | 'docs' | 'api' | 'errors' | 'changelog' | 'github';
+
 export interface ScrapedContent {
   url: string;
   markdown: string;
   success: boolean;
-  error?: string;
+  error?: string;               // "<failureReason>: <detail>" for failed scrapes
+  failureReason?: ScrapeFailureReason;
   isPaywalled?: boolean;
+  paywall?: PaywallVerdict;     // Why the page was (or was not) flagged as paywalled
   fallbackUsed?: boolean;
   crawledAt: string;
+  queries?: SearchQueryKind[];  // Set on search hits; crawled and seed pages have none
+  isOfficial?: boolean;         // On the detected official docs origin
+  repoFile?: RepoFile;          // Set when ingested from a GitHub repository
+  llmsFullSection?: string;     // Section title ("" if untitled), when split out of the site's llms-full.txt
+  packageInfo?: PackageInfo;    // Set on the structured package registry source
+  scraper?: ScraperName;        // Backend that fetched the page (lib/scraper.ts)
+  canonicalUrl?: string;        // The page's rel=canonical (or redirect target), when it differs from url
+  docVersion?: string;          // Docs version named by the URL or page banner, e.g. "14", "0.12", "canary"
+  versionMismatch?: boolean;    // Kept although its docVersion is not the targeted one
+}
+
+export type ScraperName = 'hyperbrowser' | 'native';
+
+// One contribution to a page's paywall score (lib/paywall.ts)
+export interface PaywallSignal {
+  kind: 'length' | 'keyword' | 'density';
+  detail: string;       // e.g. "\"subscribe to continue\" ×2" or "180 chars"
+  points: number;
+}
+
+export interface PaywallVerdict {
+  score: number;        // 0-100
+  threshold: number;
+  isPaywalled: boolean;
+  signals: PaywallSignal[];
+  override?: 'never' | 'always';  // Domain override from config ("paywall.never" / "paywall.always")
+}
+
+// Why a scrape failed; timeout, rate-limited and unavailable are retried with backoff
+export type ScrapeFailureReason = 'timeout' | 'blocked' | 'rate-limited' | 'unavailable' | 'empty' | 'failed';
+
+export type PackageEcosystem = 'npm' | 'pypi' | 'crates';
+
+// Package metadata resolved from its registry (lib/registry.ts)
+export interface PackageInfo {
+  ecosystem: PackageEcosystem;
+  name: string;
+  version: string;                            // Latest published version
+  description?: string;
+  homepage?: string;
+  repository?: string;
+  registryUrl: string;                        // Package page, e.g. https://www.npmjs.com/package/zod
+  installCommand: string;
+  peerDependencies: Record<string, string>;   // npm peerDependencies; empty elsewhere
+  bins: string[];                             // Executables the package installs
+}
+
+// What a GitHub-ingested entry holds (lib/github.ts)
+export type RepoFileKind = 'readme' | 'docs' | 'example' | 'changelog' | 'releases';
+
+export interface RepoFile {
+  repo: string;         // "owner/name"
+  path: string;         // Repo-relative file path; "releases" for release notes
+  kind: RepoFileKind;
+}
+
+// Documentation version a generation targets (lib/doc-versions.ts)
+export interface DocVersionSelection {
+  target: string;                     // e.g. "14", or "0.12" for 0.x releases
+  basis: 'request' | 'latest';        // Named in the topic, or the newest stable version among the sources
+  requested?: string;                 // Version the topic named when no source had it
+  versions: Record<string, number>;   // Sources per detected version
+}
+
+// Authoritative documentation site for a topic (lib/official-docs.ts)
+export interface OfficialDocs {
+  origin: string;       // e.g. "https://supabase.com"
+  rootUrl: string;      // Pinned as the primary crawl root
+  score: number;
+  signals: string[];    // Evidence behind the choice, for metadata and plan output
 }
 
 export interface CachedContent {
@@ -68,14 +295,88 @@ export interface TopicClassification {
   confidence: number;
 }
 
-export interface GenerationPhase {
-  phase: 'searching' | 'crawling' | 'analyzing' | 'generating' | 'validating' | 'complete';
-  message: string;
-  progress: number;
+// Pass 1 output that pass 2 writes the SKILL.md from; editable in review mode
+export interface AnalysisData {
+  outline: string;
+  keyPoints: string[];
+  triggers: string[];
+  projectIndicators: string[];
+  commonErrors: string[];
+  limitations: string[];
 }
 
-export interface StreamResponse {
+// =============================================================================
+// SSE EVENT PROTOCOL
+// Shared by /api/generate, /api/jobs/:id/events and lib/sse-client.ts.
+// Each message is sent as `event: <type>` with a JSON `data:` payload that
+// also carries the protocol version (`v`) and the same `type` discriminator.
+// =============================================================================
+export type GenerationPhase =
+  | 'searching'
+  | 'validating'
+  | 'crawling'
+  | 'analyzing'
+  | 'generating'
+  | 'finalizing'
+  | 'complete';
+
+export interface ProgressEvent {
+  type: 'progress';
   phase: GenerationPhase;
-  content?: string;
-  error?: string;
+  message: string;
+  progress: number; // 0-100
+}
+
+export interface SourceDiscoveredEvent {
+  type: 'source-discovered';
+  url: string;
+  title?: string;
+  origin: 'search' | 'seed' | 'crawl' | 'cache' | 'github' | 'llms-txt';
+  queries?: SearchQueryKind[];  // For search hits
+}
+
+export interface WarningEvent {
+  type: 'warning';
+  message: string;
 }
+
+// Incremental SKILL.md text while a pass is streaming
+export interface PartialContentEvent {
+  type: 'partial-content';
+  pass: number;
+  delta: string;
+  reset?: boolean; // Discard previously received text (a new pass restarted the document)
+}
+
+// Review mode: generation is paused until the (edited) analysis is submitted
+export interface AnalysisReadyEvent {
+  type: 'analysis-ready';
+  analysis: AnalysisData;
+}
+
+export interface CompleteEvent {
+  type: 'complete';
+  message: string;
+  content: string;
+  metadata: GenerationMetadata;
+}
+
+export interface ErrorEvent {
+  type: 'error';
+  message: string;
+  code?: string;           // Machine-readable reason: 'cancelled', 'budget_exceeded'
+}
+
+export type GenerationEvent =
+  | ProgressEvent
+  | SourceDiscoveredEvent
+  | WarningEvent
+  | PartialContentEvent
+  | AnalysisReadyEvent
+  | CompleteEvent
+  | ErrorEvent;
+
+export type GenerationEventType = GenerationEvent['type'];
+
+// Wire format of every `data:` payload
+export type GenerationEventPayload = GenerationEvent & { v: number };